@@ -0,0 +1,457 @@
+/**
+ * A stand-in for the parts of the Obsidian API the plugin uses, so the plugin
+ * can run in tests. The vault keeps its files in memory and the metadata
+ * cache parses frontmatter on every lookup. Only what the tests exercise is
+ * implemented; UI classes are empty shells.
+ */
+import * as momentModule from "moment";
+import * as yaml from "js-yaml";
+
+type Callback = (...args: unknown[]) => unknown;
+
+// The CommonJS export of moment arrives as the default export
+export const moment = ((momentModule as unknown as { default?: unknown })
+  .default ?? momentModule) as typeof momentModule;
+
+export class Events {
+  private handlers: Map<string, Callback[]> = new Map();
+
+  on(name: string, callback: Callback) {
+    this.handlers.set(name, [...(this.handlers.get(name) ?? []), callback]);
+    return { name, callback };
+  }
+
+  off(name: string, callback: Callback) {
+    this.handlers.set(
+      name,
+      (this.handlers.get(name) ?? []).filter((other) => other !== callback),
+    );
+  }
+
+  offref(ref: { name: string; callback: Callback }) {
+    this.off(ref.name, ref.callback);
+  }
+
+  trigger(name: string, ...args: unknown[]) {
+    for (const callback of this.handlers.get(name) ?? []) {
+      callback(...args);
+    }
+  }
+}
+
+// Set through setPath, which runs before field initializers of subclasses
+export class TAbstractFile {
+  declare name: string;
+  parent: TFolder | null = null;
+
+  constructor(public path: string) {
+    this.setPath(path);
+  }
+
+  setPath(path: string) {
+    this.path = path;
+    this.name = path.split("/").pop() ?? path;
+  }
+}
+
+export class TFile extends TAbstractFile {
+  declare basename: string;
+  declare extension: string;
+  stat = { ctime: 0, mtime: 0, size: 0 };
+
+  setPath(path: string) {
+    super.setPath(path);
+    const dot = this.name.lastIndexOf(".");
+    this.basename = dot > 0 ? this.name.slice(0, dot) : this.name;
+    this.extension = dot > 0 ? this.name.slice(dot + 1) : "";
+  }
+}
+
+export class TFolder extends TAbstractFile {
+  children: TAbstractFile[] = [];
+
+  isRoot(): boolean {
+    return this.path === "/";
+  }
+}
+
+export function normalizePath(path: string): string {
+  const normalized = path
+    .replace(/\\/g, "/")
+    .replace(/ | /g, " ")
+    .replace(/\/+/g, "/")
+    .replace(/^\/|\/$/g, "");
+  return normalized === "" ? "/" : normalized;
+}
+
+export function getFrontMatterInfo(content: string) {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n?---(?:\r?\n|$)/);
+  if (!match) {
+    return { exists: false, frontmatter: "", from: 0, to: 0, contentStart: 0 };
+  }
+  return {
+    exists: true,
+    frontmatter: match[1],
+    from: 4,
+    to: 4 + match[1].length,
+    contentStart: match[0].length,
+  };
+}
+
+export function parseYaml(text: string): unknown {
+  return yaml.load(text);
+}
+
+export function stringifyYaml(value: unknown): string {
+  return yaml.dump(value);
+}
+
+class Vault extends Events {
+  private contents: Map<string, string | ArrayBuffer> = new Map();
+  private files: Map<string, TAbstractFile> = new Map();
+  adapter = {
+    exists: async (path: string) => this.files.has(normalizePath(path)),
+    read: async (path: string) => this.readPath(normalizePath(path)),
+  };
+
+  constructor(private app: App) {
+    super();
+    const root = new TFolder("/");
+    root.name = "";
+    this.files.set("/", root);
+  }
+
+  getRoot(): TFolder {
+    return this.files.get("/") as TFolder;
+  }
+
+  getAbstractFileByPath(path: string): TAbstractFile | null {
+    return this.files.get(normalizePath(path)) ?? null;
+  }
+
+  getFiles(): TFile[] {
+    return [...this.files.values()].filter(
+      (file): file is TFile => file instanceof TFile,
+    );
+  }
+
+  getMarkdownFiles(): TFile[] {
+    return this.getFiles().filter((file) => file.extension === "md");
+  }
+
+  getAllLoadedFiles(): TAbstractFile[] {
+    return [...this.files.values()];
+  }
+
+  async createFolder(path: string): Promise<TFolder> {
+    const folder = new TFolder(normalizePath(path));
+    this.add(folder);
+    return folder;
+  }
+
+  async create(path: string, content: string): Promise<TFile> {
+    const file = new TFile(normalizePath(path));
+    this.contents.set(file.path, content);
+    this.add(file);
+    this.changed(file, "create");
+    return file;
+  }
+
+  async createBinary(path: string, data: ArrayBuffer): Promise<TFile> {
+    const file = new TFile(normalizePath(path));
+    this.contents.set(file.path, data);
+    this.add(file);
+    this.trigger("create", file);
+    return file;
+  }
+
+  async read(file: TFile): Promise<string> {
+    return this.readPath(file.path);
+  }
+
+  async cachedRead(file: TFile): Promise<string> {
+    return this.readPath(file.path);
+  }
+
+  async readBinary(file: TFile): Promise<ArrayBuffer> {
+    const content = this.contents.get(file.path);
+    return typeof content === "string"
+      ? new TextEncoder().encode(content).buffer
+      : (content ?? new ArrayBuffer(0));
+  }
+
+  async modify(file: TFile, content: string) {
+    this.write(file, content);
+  }
+
+  async process(file: TFile, fn: (content: string) => string) {
+    const content = fn(this.readPath(file.path));
+    this.write(file, content);
+    return content;
+  }
+
+  async delete(file: TAbstractFile) {
+    this.remove(file);
+  }
+
+  async rename(file: TAbstractFile, newPath: string) {
+    newPath = normalizePath(newPath);
+    if (this.files.has(newPath)) {
+      throw new Error(`Destination file already exists: ${newPath}`);
+    }
+    const oldPath = file.path;
+    const parent = this.getParent(newPath);
+    file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+    this.files.delete(oldPath);
+    const content = this.contents.get(oldPath);
+    this.contents.delete(oldPath);
+    file.setPath(newPath);
+    file.parent = parent;
+    parent.children.push(file);
+    this.files.set(newPath, file);
+    if (content !== undefined) {
+      this.contents.set(newPath, content);
+    }
+    this.trigger("rename", file, oldPath);
+  }
+
+  // Write a file's content and let listeners know, like Obsidian does
+  write(file: TFile, content: string) {
+    if (!this.files.has(file.path)) {
+      throw new Error(`File not found: ${file.path}`);
+    }
+    this.contents.set(file.path, content);
+    this.changed(file, "modify");
+  }
+
+  private changed(file: TFile, event: "create" | "modify") {
+    this.trigger(event, file);
+    this.app.metadataCache.trigger("changed", file);
+  }
+
+  // Read without going through the async API, for the metadata cache
+  readPath(path: string): string {
+    const content = this.contents.get(path);
+    if (typeof content !== "string") {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  private getParent(path: string): TFolder {
+    const parentPath = path.includes("/")
+      ? path.slice(0, path.lastIndexOf("/"))
+      : "/";
+    const parent = this.files.get(parentPath);
+    if (!(parent instanceof TFolder)) {
+      throw new Error(`Folder not found: ${parentPath}`);
+    }
+    return parent;
+  }
+
+  private add(file: TAbstractFile) {
+    if (this.files.has(file.path)) {
+      throw new Error(`File already exists: ${file.path}`);
+    }
+    file.parent = this.getParent(file.path);
+    file.parent.children.push(file);
+    this.files.set(file.path, file);
+  }
+
+  private remove(file: TAbstractFile) {
+    if (file instanceof TFolder) {
+      for (const child of [...file.children]) {
+        this.remove(child);
+      }
+    }
+    file.parent?.children.splice(file.parent.children.indexOf(file), 1);
+    this.files.delete(file.path);
+    this.contents.delete(file.path);
+    this.trigger("delete", file);
+  }
+}
+
+class MetadataCache extends Events {
+  resolvedLinks: Record<string, Record<string, number>> = {};
+
+  constructor(private app: App) {
+    super();
+  }
+
+  getFileCache(file: TFile) {
+    let content: string;
+    try {
+      content = this.app.vault.readPath(file.path);
+    } catch {
+      return null;
+    }
+    const info = getFrontMatterInfo(content);
+    if (!info.exists) {
+      return {};
+    }
+    const frontmatter = parseYaml(info.frontmatter);
+    return {
+      frontmatter:
+        frontmatter && typeof frontmatter === "object" ? frontmatter : {},
+    };
+  }
+
+  getFirstLinkpathDest(linkpath: string): TFile | null {
+    const file =
+      this.app.vault.getAbstractFileByPath(linkpath) ??
+      this.app.vault.getAbstractFileByPath(`${linkpath}.md`);
+    return file instanceof TFile ? file : null;
+  }
+}
+
+class FileManager {
+  // Files moved to the trash
+  trashed: string[] = [];
+
+  constructor(private app: App) {}
+
+  async processFrontMatter(
+    file: TFile,
+    fn: (frontmatter: Record<string, unknown>) => void,
+  ) {
+    const content = await this.app.vault.read(file);
+    const info = getFrontMatterInfo(content);
+    const frontmatter = info.exists
+      ? ((parseYaml(info.frontmatter) as Record<string, unknown>) ?? {})
+      : {};
+    fn(frontmatter);
+    const body = content.slice(info.contentStart);
+    this.app.vault.write(
+      file,
+      `---\n${stringifyYaml(frontmatter)}---\n${body}`,
+    );
+  }
+
+  async renameFile(file: TAbstractFile, newPath: string) {
+    await this.app.vault.rename(file, newPath);
+  }
+
+  async trashFile(file: TAbstractFile) {
+    this.trashed.push(file.path);
+    await this.app.vault.delete(file);
+  }
+
+  generateMarkdownLink(file: TFile): string {
+    return `[[${file.basename}]]`;
+  }
+}
+
+export class App {
+  vault: Vault;
+  metadataCache: MetadataCache;
+  fileManager: FileManager;
+  workspace = new Events();
+
+  constructor() {
+    this.vault = new Vault(this);
+    this.metadataCache = new MetadataCache(this);
+    this.fileManager = new FileManager(this);
+  }
+}
+
+export class Notice {
+  // Every notice shown, newest last
+  static messages: string[] = [];
+
+  constructor(message: string) {
+    Notice.messages.push(message);
+  }
+
+  setMessage(message: string) {
+    Notice.messages.push(message);
+    return this;
+  }
+
+  hide() {}
+}
+
+export class Component {
+  registerEvent() {}
+  registerInterval(id: number) {
+    return id;
+  }
+  register() {}
+}
+
+export class Plugin extends Component {
+  private data: unknown = null;
+
+  constructor(
+    public app: App,
+    public manifest: unknown,
+  ) {
+    super();
+  }
+
+  async loadData(): Promise<unknown> {
+    return structuredClone(this.data);
+  }
+
+  async saveData(data: unknown) {
+    this.data = structuredClone(data);
+  }
+
+  addCommand() {}
+  addSettingTab() {}
+  addRibbonIcon() {}
+  addStatusBarItem() {}
+  registerView() {}
+  registerEditorExtension() {}
+}
+
+export async function requestUrl(): Promise<never> {
+  throw new Error("requestUrl is not available in tests");
+}
+
+export function debounce<T extends unknown[]>(fn: (...args: T) => void) {
+  return fn;
+}
+
+export function prepareFuzzySearch(query: string) {
+  const needle = query.toLowerCase();
+  return (text: string) =>
+    text.toLowerCase().includes(needle) ? { score: 0, matches: [] } : null;
+}
+
+export function setIcon() {}
+export function setTooltip() {}
+
+// UI classes the plugin extends, never rendered in tests
+export class Modal extends Component {
+  constructor(public app: App) {
+    super();
+  }
+  open() {}
+  close() {}
+}
+export class SuggestModal<T> extends Modal {
+  declare _item?: T;
+}
+export class FuzzySuggestModal<T> extends SuggestModal<T> {}
+export class AbstractInputSuggest<T> {
+  declare _item?: T;
+  constructor(public app: App) {}
+  close() {}
+}
+export class ItemView extends Component {
+  constructor(public leaf: unknown) {
+    super();
+  }
+}
+export class PluginSettingTab {
+  constructor(
+    public app: App,
+    public plugin: Plugin,
+  ) {}
+}
+export class Setting {}
+export class DropdownComponent {}
+export class MarkdownView {}
+export class Menu {}
+export class WorkspaceLeaf {}
+export class Editor {}
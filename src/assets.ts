@@ -0,0 +1,71 @@
+// File extensions for the content types Hoarder serves assets with
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+  "application/pdf": "pdf",
+  "text/html": "html",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "video/quicktime": "mov",
+  "video/x-matroska": "mkv",
+};
+
+/**
+ * Pick the extension for a downloaded file from its Content-Type, then from
+ * the URL, and otherwise use `fallback`.
+ */
+export function getAssetExtension(
+  contentType: string | null,
+  url: string,
+  fallback: string,
+): string {
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+  if (mimeType && CONTENT_TYPE_EXTENSIONS[mimeType]) {
+    return CONTENT_TYPE_EXTENSIONS[mimeType];
+  }
+
+  try {
+    const extension = new URL(url).pathname.match(/\.([a-z0-9]{1,5})$/i)?.[1];
+    if (extension) {
+      return extension.toLowerCase();
+    }
+  } catch {
+    // Not a URL we can parse, use the fallback
+  }
+  return fallback;
+}
+
+// File types Obsidian can show inline with an ![[embed]]
+const EMBEDDABLE_EXTENSIONS = [
+  "jpg",
+  "jpeg",
+  "png",
+  "gif",
+  "webp",
+  "avif",
+  "svg",
+  "bmp",
+  "pdf",
+  "mp4",
+  "webm",
+  "mov",
+  "mkv",
+  "ogv",
+  "mp3",
+  "wav",
+  "m4a",
+  "ogg",
+  "flac",
+];
+
+// Embed a downloaded file if Obsidian can show it, otherwise link to it
+export function getAssetEmbed(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase() ?? "";
+  return EMBEDDABLE_EXTENSIONS.includes(extension)
+    ? `![[${path}]]`
+    : `[[${path}]]`;
+}
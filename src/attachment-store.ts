@@ -0,0 +1,79 @@
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+
+/**
+ * Attachments are stored once per asset as `<assetId>.<extension>` in the
+ * attachments folder, so the same asset is never downloaded twice, whatever
+ * the title of the bookmark that references it.
+ */
+export class AttachmentStore {
+  constructor(
+    private app: App,
+    private getFolderPath: () => string,
+  ) {}
+
+  private getFolder(): TFolder | null {
+    const folder = this.app.vault.getAbstractFileByPath(
+      normalizePath(this.getFolderPath()),
+    );
+    return folder instanceof TFolder ? folder : null;
+  }
+
+  // Every file in the attachments folder and its subfolders
+  getFiles(): TFile[] {
+    const files: TFile[] = [];
+    const folders = [this.getFolder()];
+    while (folders.length > 0) {
+      const folder = folders.pop();
+      for (const child of folder?.children ?? []) {
+        if (child instanceof TFile) {
+          files.push(child);
+        } else if (child instanceof TFolder) {
+          folders.push(child);
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Find the stored file of an asset. Files saved under the old
+   * `<assetId>-<title>` names are renamed to the asset id on the way, which
+   * also updates the notes linking to them.
+   */
+  async get(assetId: string): Promise<TFile | null> {
+    const files = this.getFolder()?.children ?? [];
+    const file = files.find(
+      (child): child is TFile =>
+        child instanceof TFile && child.basename === assetId,
+    );
+    if (file) {
+      return file;
+    }
+
+    const legacyFile = files.find(
+      (child): child is TFile =>
+        child instanceof TFile && child.basename.startsWith(`${assetId}-`),
+    );
+    if (legacyFile) {
+      await this.app.fileManager.renameFile(
+        legacyFile,
+        this.getPath(assetId, legacyFile.extension),
+      );
+      return legacyFile;
+    }
+
+    return null;
+  }
+
+  async save(
+    assetId: string,
+    extension: string,
+    data: ArrayBuffer,
+  ): Promise<TFile> {
+    return this.app.vault.createBinary(this.getPath(assetId, extension), data);
+  }
+
+  private getPath(assetId: string, extension: string): string {
+    return normalizePath(`${this.getFolderPath()}/${assetId}.${extension}`);
+  }
+}
@@ -0,0 +1,92 @@
+import { App, TFile } from "obsidian";
+
+/**
+ * Keeps track of which vault file holds which Hoarder bookmark, keyed by the
+ * `bookmark_id` frontmatter property. The index is rebuilt from the
+ * MetadataCache on load and kept current through vault and cache events, so
+ * notes can be found again after the user renames or moves them.
+ */
+export class BookmarkIndex {
+  private pathsById: Map<string, string> = new Map();
+  private idsByPath: Map<string, string> = new Map();
+
+  constructor(private app: App) {}
+
+  rebuild() {
+    this.pathsById.clear();
+    this.idsByPath.clear();
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      this.updateFromCache(file);
+    }
+  }
+
+  // Re-read the bookmark id of a file from its cached frontmatter
+  updateFromCache(file: TFile) {
+    const bookmarkId =
+      this.app.metadataCache.getFileCache(file)?.frontmatter?.bookmark_id;
+
+    if (bookmarkId) {
+      this.set(String(bookmarkId), file.path);
+    } else {
+      this.removePath(file.path);
+    }
+  }
+
+  set(bookmarkId: string, path: string) {
+    const existingPath = this.pathsById.get(bookmarkId);
+    if (existingPath && existingPath !== path) {
+      // Keep the first file we saw unless it no longer exists
+      if (this.app.vault.getAbstractFileByPath(existingPath) instanceof TFile) {
+        console.warn(
+          `Duplicate Hoarder bookmark ${bookmarkId} in ${path}, keeping ${existingPath}`,
+        );
+        return;
+      }
+      this.idsByPath.delete(existingPath);
+    }
+
+    const previousId = this.idsByPath.get(path);
+    if (previousId && previousId !== bookmarkId) {
+      this.pathsById.delete(previousId);
+    }
+
+    this.pathsById.set(bookmarkId, path);
+    this.idsByPath.set(path, bookmarkId);
+  }
+
+  rename(oldPath: string, newPath: string) {
+    const bookmarkId = this.idsByPath.get(oldPath);
+    if (!bookmarkId) return;
+
+    this.idsByPath.delete(oldPath);
+    this.idsByPath.set(newPath, bookmarkId);
+    this.pathsById.set(bookmarkId, newPath);
+  }
+
+  removePath(path: string) {
+    const bookmarkId = this.idsByPath.get(path);
+    if (!bookmarkId) return;
+
+    this.idsByPath.delete(path);
+    if (this.pathsById.get(bookmarkId) === path) {
+      this.pathsById.delete(bookmarkId);
+    }
+  }
+
+  getFile(bookmarkId: string): TFile | null {
+    const path = this.pathsById.get(bookmarkId);
+    if (!path) return null;
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    return file instanceof TFile ? file : null;
+  }
+
+  getBookmarkId(path: string): string | null {
+    return this.idsByPath.get(path) ?? null;
+  }
+
+  entries(): [string, string][] {
+    return Array.from(this.pathsById.entries());
+  }
+}
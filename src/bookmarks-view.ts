@@ -0,0 +1,512 @@
+import {
+  DropdownComponent,
+  ItemView,
+  Notice,
+  TFile,
+  WorkspaceLeaf,
+  debounce,
+  setIcon,
+  setTooltip,
+} from "obsidian";
+import type HoarderPlugin from "./main";
+import type { HoarderBookmark } from "./hoarder-api";
+import type { SyncProfile } from "./profiles";
+
+export const HOARDER_VIEW_TYPE = "hoarder-bookmarks";
+
+// Rendering thousands of rows makes the sidebar sluggish
+const MAX_RENDERED_BOOKMARKS = 200;
+
+type BookmarkStatus =
+  | "synced"
+  | "not synced"
+  | "conflict"
+  | "deleted"
+  | "archived";
+
+interface BrowserBookmark {
+  id: string;
+  title: string;
+  url: string | null;
+  favicon: string | null;
+  tags: string[];
+  lists: string[];
+  summary: string;
+  favourited: boolean;
+  archived: boolean;
+  status: BookmarkStatus;
+  // Only set for bookmarks loaded from Hoarder
+  bookmark: HoarderBookmark | null;
+}
+
+interface BrowserFilters {
+  query: string;
+  tag: string;
+  list: string;
+  favourited: "any" | "only";
+  archived: "any" | "hide" | "only";
+}
+
+function toStringArray(value: unknown): string[] {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  return values
+    .filter((item) => item !== null && item !== undefined)
+    .map((item) => String(item).trim().replace(/^#/, ""))
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Sidebar listing bookmarks, either from the synced notes or straight from
+ * Hoarder, with filters and quick actions.
+ */
+export class HoarderBookmarksView extends ItemView {
+  private source: "notes" | "hoarder" = "notes";
+  private bookmarks: BrowserBookmark[] = [];
+  private favicons = new Map<string, string>();
+  private filters: BrowserFilters = {
+    query: "",
+    tag: "",
+    list: "",
+    favourited: "any",
+    archived: "any",
+  };
+  private controlsEl: HTMLElement;
+  private listEl: HTMLElement;
+  private tagDropdown: DropdownComponent;
+  private listDropdown: DropdownComponent;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: HoarderPlugin,
+  ) {
+    super(leaf);
+  }
+
+  getViewType() {
+    return HOARDER_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Hoarder bookmarks";
+  }
+
+  getIcon() {
+    return "bookmark";
+  }
+
+  async onOpen() {
+    const containerEl = this.contentEl;
+    containerEl.empty();
+    containerEl.addClass("hoarder-bookmarks-view");
+
+    this.controlsEl = containerEl.createDiv({ cls: "hoarder-view-controls" });
+    this.listEl = containerEl.createDiv({ cls: "hoarder-view-list" });
+    this.renderControls();
+
+    // Notes change during a sync and when edited, so reload them as they do
+    const reloadNotes = debounce(
+      () => {
+        if (this.source === "notes") {
+          this.refresh();
+        }
+      },
+      1000,
+      true,
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => {
+        if (this.plugin.bookmarkIndex.getBookmarkId(file.path)) {
+          reloadNotes();
+        }
+      }),
+    );
+    this.plugin.events.on("sync-state-change", this.onSyncStateChange);
+
+    await this.refresh();
+  }
+
+  async onClose() {
+    this.plugin.events.off("sync-state-change", this.onSyncStateChange);
+  }
+
+  // Reloading from Hoarder after every sync would refetch everything, so
+  // only the notes are reloaded
+  private onSyncStateChange = (isSyncing: boolean) => {
+    if (!isSyncing && this.source === "notes") {
+      this.refresh();
+    }
+  };
+
+  private renderControls() {
+    const { controlsEl } = this;
+    controlsEl.empty();
+
+    const searchEl = controlsEl.createEl("input", {
+      type: "search",
+      placeholder: "Search bookmarks",
+      cls: "hoarder-view-search",
+    });
+    searchEl.value = this.filters.query;
+    searchEl.addEventListener("input", () => {
+      this.filters.query = searchEl.value;
+      this.renderList();
+    });
+
+    const rowEl = controlsEl.createDiv({ cls: "hoarder-view-filters" });
+    new DropdownComponent(rowEl)
+      .addOption("notes", "Synced notes")
+      .addOption("hoarder", "Hoarder")
+      .setValue(this.source)
+      .onChange(async (value: "notes" | "hoarder") => {
+        this.source = value;
+        await this.refresh();
+      });
+    this.tagDropdown = new DropdownComponent(rowEl).onChange((value) => {
+      this.filters.tag = value;
+      this.renderList();
+    });
+    this.listDropdown = new DropdownComponent(rowEl).onChange((value) => {
+      this.filters.list = value;
+      this.renderList();
+    });
+    new DropdownComponent(rowEl)
+      .addOption("any", "All bookmarks")
+      .addOption("only", "Favourites")
+      .setValue(this.filters.favourited)
+      .onChange((value: "any" | "only") => {
+        this.filters.favourited = value;
+        this.renderList();
+      });
+    new DropdownComponent(rowEl)
+      .addOption("any", "Any archived state")
+      .addOption("hide", "Hide archived")
+      .addOption("only", "Archived only")
+      .setValue(this.filters.archived)
+      .onChange((value: "any" | "hide" | "only") => {
+        this.filters.archived = value;
+        this.renderList();
+      });
+
+    const refreshEl = rowEl.createSpan({ cls: "clickable-icon" });
+    setIcon(refreshEl, "refresh-cw");
+    setTooltip(refreshEl, "Refresh");
+    refreshEl.addEventListener("click", () => this.refresh());
+  }
+
+  // Fill a filter dropdown with the values found in the loaded bookmarks
+  private updateFilterOptions(
+    dropdown: DropdownComponent,
+    label: string,
+    values: string[],
+    selected: string,
+  ): string {
+    dropdown.selectEl.empty();
+    dropdown.addOption("", label);
+    const sorted = Array.from(new Set(values)).sort((a, b) =>
+      a.localeCompare(b),
+    );
+    for (const value of sorted) {
+      dropdown.addOption(value, value);
+    }
+    const value = sorted.includes(selected) ? selected : "";
+    dropdown.setValue(value);
+    return value;
+  }
+
+  async refresh() {
+    try {
+      this.bookmarks =
+        this.source === "hoarder"
+          ? await this.loadFromHoarder()
+          : this.loadFromNotes();
+    } catch (error) {
+      console.error("Error loading bookmarks:", error);
+      new Notice(`Failed to load bookmarks: ${error.message}`);
+      this.bookmarks = [];
+    }
+
+    this.filters.tag = this.updateFilterOptions(
+      this.tagDropdown,
+      "All tags",
+      this.bookmarks.flatMap((bookmark) => bookmark.tags),
+      this.filters.tag,
+    );
+    this.filters.list = this.updateFilterOptions(
+      this.listDropdown,
+      "All lists",
+      this.bookmarks.flatMap((bookmark) => bookmark.lists),
+      this.filters.list,
+    );
+    this.renderList();
+  }
+
+  private getNoteStatus(file: TFile | null): BookmarkStatus {
+    if (!file) {
+      return "not synced";
+    }
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (frontmatter?.hoarder_conflict) {
+      return "conflict";
+    }
+    if (frontmatter?.hoarder_status === "deleted") {
+      return "deleted";
+    }
+    if (frontmatter?.hoarder_status === "archived") {
+      return "archived";
+    }
+    return "synced";
+  }
+
+  private loadFromNotes(): BrowserBookmark[] {
+    const bookmarks: BrowserBookmark[] = [];
+    for (const [id] of this.plugin.bookmarkIndex.entries()) {
+      const file = this.plugin.bookmarkIndex.getFile(id);
+      if (!file) continue;
+      const frontmatter =
+        this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+      bookmarks.push({
+        id,
+        title: frontmatter.title ? String(frontmatter.title) : file.basename,
+        url: frontmatter.url ? String(frontmatter.url) : null,
+        favicon: this.favicons.get(id) ?? null,
+        tags: toStringArray(frontmatter.tags),
+        lists: toStringArray(frontmatter.lists),
+        summary: frontmatter.summary ? String(frontmatter.summary) : "",
+        favourited:
+          frontmatter.favourited === true || frontmatter.favourited === "true",
+        archived:
+          frontmatter.archived === true || frontmatter.archived === "true",
+        status: this.getNoteStatus(file),
+        bookmark: null,
+      });
+    }
+    return bookmarks.sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  private async loadFromHoarder(): Promise<BrowserBookmark[]> {
+    const bookmarkLists = new Map<string, string[]>();
+    const bookmarks: BrowserBookmark[] = [];
+    for (const profile of this.plugin.getProfiles()) {
+      if (profile.apiKey) {
+        await this.loadProfileFromHoarder(profile, bookmarkLists, bookmarks);
+      }
+    }
+    return bookmarks;
+  }
+
+  private async loadProfileFromHoarder(
+    profile: SyncProfile,
+    bookmarkLists: Map<string, string[]>,
+    bookmarks: BrowserBookmark[],
+  ) {
+    for (const { list, bookmarkIds } of await this.plugin.fetchListMembers(
+      profile,
+    )) {
+      for (const bookmarkId of bookmarkIds) {
+        bookmarkLists.set(bookmarkId, [
+          ...(bookmarkLists.get(bookmarkId) ?? []),
+          list.name,
+        ]);
+      }
+    }
+
+    let cursor: string | null = null;
+    do {
+      // Browse everything, not just what the sync filters let through
+      const result = await this.plugin.fetchBookmarks(
+        profile,
+        cursor,
+        100,
+        false,
+      );
+      for (const bookmark of result.bookmarks || []) {
+        if (bookmark.content.favicon) {
+          this.favicons.set(bookmark.id, bookmark.content.favicon);
+        }
+        bookmarks.push({
+          id: bookmark.id,
+          title: this.plugin.getBookmarkTitle(bookmark),
+          url: bookmark.content.url ?? bookmark.content.sourceUrl ?? null,
+          favicon: bookmark.content.favicon ?? null,
+          tags: bookmark.tags.map((tag) => tag.name),
+          lists: bookmarkLists.get(bookmark.id) ?? [],
+          summary: bookmark.summary ?? bookmark.content.description ?? "",
+          favourited: bookmark.favourited,
+          archived: bookmark.archived,
+          status: this.getNoteStatus(
+            this.plugin.bookmarkIndex.getFile(bookmark.id),
+          ),
+          bookmark,
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+  }
+
+  private matchesFilters(bookmark: BrowserBookmark): boolean {
+    const { query, tag, list, favourited, archived } = this.filters;
+    if (tag && !bookmark.tags.includes(tag)) return false;
+    if (list && !bookmark.lists.includes(list)) return false;
+    if (favourited === "only" && !bookmark.favourited) return false;
+    if (archived === "hide" && bookmark.archived) return false;
+    if (archived === "only" && !bookmark.archived) return false;
+
+    const lowerCaseQuery = query.trim().toLowerCase();
+    return (
+      !lowerCaseQuery ||
+      [bookmark.title, bookmark.url ?? "", bookmark.summary, ...bookmark.tags]
+        .join("\n")
+        .toLowerCase()
+        .contains(lowerCaseQuery)
+    );
+  }
+
+  private renderList() {
+    const { listEl } = this;
+    listEl.empty();
+
+    const matches = this.bookmarks.filter((bookmark) =>
+      this.matchesFilters(bookmark),
+    );
+    listEl.createDiv({
+      cls: "hoarder-view-count",
+      text:
+        matches.length > MAX_RENDERED_BOOKMARKS
+          ? `Showing ${MAX_RENDERED_BOOKMARKS} of ${matches.length} bookmarks`
+          : `${matches.length} bookmark${matches.length === 1 ? "" : "s"}`,
+    });
+
+    for (const bookmark of matches.slice(0, MAX_RENDERED_BOOKMARKS)) {
+      this.renderBookmark(
+        listEl.createDiv({ cls: "hoarder-view-item" }),
+        bookmark,
+      );
+    }
+  }
+
+  private renderBookmark(itemEl: HTMLElement, bookmark: BrowserBookmark) {
+    const headerEl = itemEl.createDiv({ cls: "hoarder-view-item-header" });
+    if (bookmark.favicon) {
+      headerEl.createEl("img", {
+        cls: "hoarder-view-favicon",
+        attr: { src: bookmark.favicon, alt: "" },
+      });
+    }
+    const titleEl = headerEl.createDiv({
+      cls: "hoarder-view-title",
+      text: bookmark.title,
+    });
+    titleEl.addEventListener("click", () => this.openNote(bookmark));
+    headerEl.createSpan({
+      cls: `hoarder-view-status hoarder-view-status-${bookmark.status.replace(" ", "-")}`,
+      text: bookmark.status,
+    });
+
+    if (bookmark.tags.length > 0) {
+      const tagsEl = itemEl.createDiv({ cls: "hoarder-view-tags" });
+      for (const tag of bookmark.tags) {
+        const tagEl = tagsEl.createSpan({ cls: "hoarder-view-tag", text: tag });
+        tagEl.addEventListener("click", () => {
+          this.filters.tag = tag;
+          this.tagDropdown.setValue(tag);
+          this.renderList();
+        });
+      }
+    }
+
+    if (bookmark.summary) {
+      itemEl.createDiv({
+        cls: "hoarder-view-summary",
+        text:
+          bookmark.summary.length > 200
+            ? `${bookmark.summary.substring(0, 197)}...`
+            : bookmark.summary,
+      });
+    }
+
+    const actionsEl = itemEl.createDiv({ cls: "hoarder-view-actions" });
+    const addAction = (
+      icon: string,
+      tooltip: string,
+      onClick: () => void,
+      active = false,
+    ) => {
+      const actionEl = actionsEl.createSpan({ cls: "clickable-icon" });
+      actionEl.toggleClass("is-active", active);
+      setIcon(actionEl, icon);
+      setTooltip(actionEl, tooltip);
+      actionEl.addEventListener("click", onClick);
+    };
+
+    const file = this.plugin.bookmarkIndex.getFile(bookmark.id);
+    if (file || bookmark.bookmark) {
+      addAction(
+        file ? "file-text" : "file-plus",
+        file ? "Open note" : "Create note",
+        () => this.openNote(bookmark),
+      );
+    }
+    if (bookmark.url) {
+      const url = bookmark.url;
+      addAction("external-link", "Open URL", () => window.open(url));
+    }
+    // Notes of removed profiles no longer have a server to talk to
+    if (!this.plugin.hasBookmarkProfile(bookmark.id)) return;
+    addAction(
+      "star",
+      bookmark.favourited ? "Unfavourite" : "Favourite",
+      () => this.toggle(bookmark, "favourited"),
+      bookmark.favourited,
+    );
+    addAction(
+      "archive",
+      bookmark.archived ? "Unarchive" : "Archive",
+      () => this.toggle(bookmark, "archived"),
+      bookmark.archived,
+    );
+    addAction("globe", "Open in Hoarder", () =>
+      window.open(this.plugin.getBookmarkWebUrl(bookmark.id)),
+    );
+  }
+
+  // Open the bookmark's note, creating it first for unsynced bookmarks
+  private async openNote(bookmark: BrowserBookmark) {
+    let file = this.plugin.bookmarkIndex.getFile(bookmark.id);
+    if (!file) {
+      if (!bookmark.bookmark) return;
+      try {
+        file = await this.plugin.createBookmarkNote(bookmark.bookmark);
+        await this.plugin.saveSettings();
+        bookmark.status = "synced";
+        this.renderList();
+      } catch (error) {
+        console.error("Error creating bookmark note:", error);
+        new Notice(`Failed to create note: ${error.message}`);
+        return;
+      }
+    }
+    await this.app.workspace.getLeaf(false).openFile(file);
+  }
+
+  private async toggle(
+    bookmark: BrowserBookmark,
+    key: "favourited" | "archived",
+  ) {
+    const value = !bookmark[key];
+    if (
+      !(await this.plugin.setBookmarkProperties(bookmark.id, { [key]: value }))
+    ) {
+      new Notice("Failed to update bookmark in Hoarder");
+      return;
+    }
+    bookmark[key] = value;
+    if (bookmark.bookmark) {
+      bookmark.bookmark[key] = value;
+    }
+    this.renderList();
+  }
+}
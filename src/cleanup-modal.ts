@@ -0,0 +1,59 @@
+import { App, Modal, Setting, TFile } from "obsidian";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Lists the attachments a clean up would remove before anything is deleted
+export class AttachmentCleanupModal extends Modal {
+  constructor(
+    app: App,
+    private files: TFile[],
+    private onConfirm: () => Promise<void>,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("Clean up unused Hoarder attachments");
+
+    const totalSize = this.files.reduce(
+      (size, file) => size + file.stat.size,
+      0,
+    );
+    contentEl.createEl("p", {
+      text: `${this.files.length} attachment${
+        this.files.length === 1 ? " is" : "s are"
+      } not used by any note (${formatSize(totalSize)}):`,
+    });
+
+    const listEl = contentEl.createEl("ul", { cls: "hoarder-cleanup-list" });
+    for (const file of this.files) {
+      listEl.createEl("li", {
+        text: `${file.path} (${formatSize(file.stat.size)})`,
+      });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Cancel").onClick(() => this.close()),
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Move to trash")
+          .setWarning()
+          .onClick(async () => {
+            this.close();
+            await this.onConfirm();
+          }),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,28 @@
+// Runs async tasks with at most `getLimit()` of them in flight, queueing the
+// rest in order
+export class ConcurrencyLimiter {
+  private running = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(private getLimit: () => number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= Math.max(1, this.getLimit())) {
+      // The finishing task hands its slot over
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { App, Modal, Setting, SuggestModal, TFile } from "obsidian";
+
+export interface NoteConflict {
+  local: string;
+  remote: string;
+  merged: string;
+}
+
+/**
+ * Shows the Obsidian and Hoarder versions of a note side by side with their
+ * merge, and lets the user pick which one to keep.
+ */
+export class NoteConflictModal extends Modal {
+  constructor(
+    app: App,
+    private file: TFile,
+    private conflict: NoteConflict,
+    private onResolve: (notes: string) => Promise<void>,
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(`Resolve note conflict: ${this.file.basename}`);
+
+    const columnsEl = contentEl.createDiv({ cls: "hoarder-conflict-columns" });
+    const addColumn = (title: string, value: string, readOnly: boolean) => {
+      const columnEl = columnsEl.createDiv({ cls: "hoarder-conflict-column" });
+      columnEl.createEl("h4", { text: title });
+      const textareaEl = columnEl.createEl("textarea", {
+        cls: "hoarder-conflict-text",
+      });
+      textareaEl.value = value;
+      textareaEl.readOnly = readOnly;
+      return textareaEl;
+    };
+
+    addColumn("Obsidian", this.conflict.local, true);
+    addColumn("Hoarder", this.conflict.remote, true);
+    const mergedEl = addColumn("Merged", this.conflict.merged, false);
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Keep Obsidian")
+          .onClick(() => this.resolve(this.conflict.local)),
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Keep Hoarder")
+          .onClick(() => this.resolve(this.conflict.remote)),
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Use merged")
+          .setCta()
+          .onClick(() => this.resolve(mergedEl.value)),
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async resolve(notes: string) {
+    this.close();
+    await this.onResolve(notes.trim());
+  }
+}
+
+// Lists notes with unresolved conflicts
+export class NoteConflictListModal extends SuggestModal<TFile> {
+  constructor(
+    app: App,
+    private files: TFile[],
+    private onChoose: (file: TFile) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a note to resolve");
+  }
+
+  getSuggestions(query: string): TFile[] {
+    const lowerCaseQuery = query.toLowerCase();
+    return this.files.filter((file) =>
+      file.path.toLowerCase().contains(lowerCaseQuery),
+    );
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement) {
+    el.createDiv({ text: file.basename });
+    el.createEl("small", { text: file.path });
+  }
+
+  onChooseSuggestion(file: TFile) {
+    this.onChoose(file);
+  }
+}
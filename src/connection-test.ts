@@ -0,0 +1,187 @@
+import {
+  HoarderApiError,
+  HoarderClient,
+  HoarderClientConfig,
+  HoarderCorsError,
+  HoarderInvalidResponseError,
+  HoarderTransport,
+} from "./hoarder-api";
+import { corsCheckingFetchTransport } from "./transports";
+
+export interface ConnectionCheck {
+  status: "ok" | "warning" | "error";
+  message: string;
+}
+
+// Bookmarks are counted by paging through them, up to this many
+const MAX_COUNTED_BOOKMARKS = 1000;
+
+// Common mistakes in the server settings that requests alone don't reveal
+export function getServerSettingProblems(
+  apiBaseUrl: string,
+  apiPath: string,
+): string[] {
+  const problems: string[] = [];
+
+  let url: URL;
+  try {
+    url = new URL(apiBaseUrl);
+  } catch {
+    return [
+      "The API base URL is not a valid URL, e.g. https://hoarder.example.com",
+    ];
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    problems.push("The API base URL must start with http:// or https://");
+  }
+  if (apiBaseUrl.endsWith("/")) {
+    problems.push("Remove the trailing slash from the API base URL");
+  }
+  // Asset URLs are built from the base URL as <base URL>/api/assets
+  if (/\/api(\/v\d+)?\/?$/.test(url.pathname)) {
+    problems.push(
+      `Remove "${url.pathname.replace(/\/$/, "")}" from the API base URL, it belongs in the API path. Otherwise attachments can't be downloaded`,
+    );
+  }
+
+  if (!apiPath.startsWith("/")) {
+    problems.push('The API path must start with a slash, e.g. "/api/v1"');
+  }
+  if (apiPath.length > 1 && apiPath.endsWith("/")) {
+    problems.push("Remove the trailing slash from the API path");
+  }
+  return problems;
+}
+
+/**
+ * Check that the server can be reached, that the API key is accepted and the
+ * API path is right, and count what's on the server. `usesFetch` tells
+ * whether the transport is subject to CORS.
+ */
+export async function testConnection(
+  config: HoarderClientConfig,
+  transport: HoarderTransport,
+  usesFetch: boolean,
+): Promise<ConnectionCheck[]> {
+  const { baseUrl: apiBaseUrl, apiPath } = config;
+  const client = new HoarderClient(() => config, transport);
+  const checks: ConnectionCheck[] = getServerSettingProblems(
+    apiBaseUrl,
+    apiPath,
+  ).map((message) => ({ status: "warning", message }));
+
+  if (!config.apiKey) {
+    checks.push({ status: "error", message: "Enter your Hoarder API key" });
+  }
+  try {
+    new URL(apiBaseUrl);
+  } catch {
+    return checks;
+  }
+  if (!config.apiKey) {
+    return checks;
+  }
+
+  try {
+    await client.getBookmarks({ limit: 1 });
+  } catch (error) {
+    checks.push({ status: "error", message: describeError(error, apiPath) });
+    return checks;
+  }
+  checks.push({
+    status: "ok",
+    message: `Connected to ${new URL(apiBaseUrl).origin}, the API key and API path work`,
+  });
+
+  // Only requests sent with fetch need the server to allow Obsidian
+  if (!usesFetch) {
+    const fetchClient = new HoarderClient(
+      () => config,
+      corsCheckingFetchTransport,
+    );
+    try {
+      await fetchClient.getBookmarks({ limit: 1 });
+      checks.push({
+        status: "ok",
+        message: "The server's CORS policy also allows browser fetch",
+      });
+    } catch (error) {
+      if (error instanceof HoarderCorsError) {
+        checks.push({
+          status: "ok",
+          message:
+            "The server's CORS policy blocks browser fetch, which doesn't matter while requests are sent by Obsidian",
+        });
+      }
+    }
+  }
+
+  try {
+    const [bookmarkCount, tags, lists] = await Promise.all([
+      countBookmarks(client),
+      client.getTags(),
+      client.getLists(),
+    ]);
+    checks.push({
+      status: "ok",
+      message: `Found ${plural(bookmarkCount, "bookmark")}, ${plural(tags.length, "tag")} and ${plural(lists.length, "list")}`,
+    });
+  } catch (error) {
+    checks.push({
+      status: "error",
+      message: `Counting bookmarks, tags and lists failed: ${describeError(error, apiPath)}`,
+    });
+  }
+
+  // Full-text search was added to the API after the bundled spec
+  try {
+    await client.searchBookmarks("obsidian", { limit: 1 });
+    checks.push({ status: "ok", message: "Full-text search is available" });
+  } catch {
+    checks.push({
+      status: "warning",
+      message:
+        "Full-text search is not available, searching falls back to synced notes. Update Hoarder to search the whole server",
+    });
+  }
+
+  return checks;
+}
+
+async function countBookmarks(client: HoarderClient): Promise<string> {
+  let count = 0;
+  let cursor: string | null = null;
+  do {
+    const page = await client.getBookmarks({ cursor, limit: 100 });
+    count += page.bookmarks.length;
+    cursor = page.nextCursor;
+  } while (cursor && count < MAX_COUNTED_BOOKMARKS);
+  return cursor ? `more than ${count}` : String(count);
+}
+
+function plural(count: number | string, noun: string): string {
+  return `${count} ${noun}${count === 1 || count === "1" ? "" : "s"}`;
+}
+
+function describeError(error: unknown, apiPath: string): string {
+  if (error instanceof HoarderCorsError) {
+    return error.message;
+  }
+  // An HTML page instead of JSON, e.g. the web app answering unknown paths
+  if (error instanceof HoarderInvalidResponseError) {
+    return `The server answered, but not with the Hoarder API. Check the API path, usually "/api/v1"`;
+  }
+  if (error instanceof HoarderApiError) {
+    if (error.status === 0) {
+      return `The server can't be reached: ${error.message}. Check the API base URL`;
+    }
+    if (error.status === 401 || error.status === 403) {
+      return "The server rejected the API key";
+    }
+    if (error.status === 404) {
+      return `The server has no API at "${apiPath}". Check the API path, usually "/api/v1"`;
+    }
+    return `The server answered with an error: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
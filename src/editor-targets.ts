@@ -0,0 +1,73 @@
+import { Editor, EditorPosition } from "obsidian";
+
+export interface EditorTarget {
+  value: string;
+  from: EditorPosition;
+  to: EditorPosition;
+}
+
+const MARKDOWN_LINK_PATTERN = /\[[^\]]*\]\((https?:\/\/[^)\s]+)\)/g;
+export const URL_PATTERN = /https?:\/\/[^\s<>()[\]"'`]+/g;
+const WIKILINK_PATTERN = /!?\[\[([^\]|#^]+)(?:[#^|][^\]]*)?\]\]/g;
+const EMBED_PATTERN = /!\[[^\]]*\]\(([^)\s]+)\)/g;
+
+// Drop punctuation that ends the sentence around a bare URL
+export function trimUrl(url: string): string {
+  return url.replace(/[.,;:!?]+$/, "");
+}
+
+// Find a match of the pattern on the cursor line that contains the cursor
+function findAtCursor(editor: Editor, pattern: RegExp): EditorTarget | null {
+  const cursor = editor.getCursor();
+  const line = editor.getLine(cursor.line);
+
+  for (const match of line.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (cursor.ch >= start && cursor.ch <= end) {
+      return {
+        value: match[1] ?? match[0],
+        from: { line: cursor.line, ch: start },
+        to: { line: cursor.line, ch: end },
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the external URL under the cursor, either a markdown link (the whole
+ * link is the target) or a bare URL.
+ */
+export function getUrlAtCursor(editor: Editor): EditorTarget | null {
+  const link = findAtCursor(editor, MARKDOWN_LINK_PATTERN);
+  if (link) {
+    return link;
+  }
+
+  const url = findAtCursor(editor, URL_PATTERN);
+  if (url) {
+    const trimmed = trimUrl(url.value);
+    return {
+      value: trimmed,
+      from: url.from,
+      to: { line: url.to.line, ch: url.from.ch + trimmed.length },
+    };
+  }
+  return null;
+}
+
+// Find the link path of the internal link or embed under the cursor
+export function getLinkpathAtCursor(editor: Editor): EditorTarget | null {
+  const target =
+    findAtCursor(editor, WIKILINK_PATTERN) ??
+    findAtCursor(editor, EMBED_PATTERN);
+  if (!target || /^https?:\/\//.test(target.value)) {
+    return null;
+  }
+  try {
+    return { ...target, value: decodeURI(target.value.trim()) };
+  } catch {
+    return { ...target, value: target.value.trim() };
+  }
+}
@@ -0,0 +1,243 @@
+import type {
+  HoarderBookmark,
+  HoarderBookmarkUpdate,
+  HoarderList,
+  HoarderRequest,
+  HoarderResponse,
+  HoarderTransport,
+  NewHoarderBookmark,
+} from "./hoarder-api";
+
+// The body of the requests that attach or detach tags
+interface TagsRequest {
+  tags: { tagName: string }[];
+}
+
+interface FakeAsset {
+  contentType: string;
+  data: ArrayBuffer;
+}
+
+/**
+ * An in-memory Hoarder server answering the requests the plugin sends, for
+ * running a sync without a real server. Point the plugin at it with
+ * `plugin.transport = server.transport`, using the same API key and the API
+ * path "/api/v1".
+ */
+export class FakeHoarderServer {
+  bookmarks: HoarderBookmark[] = [];
+  lists: { list: HoarderList; bookmarkIds: string[] }[] = [];
+  assets: Map<string, FakeAsset> = new Map();
+  // Every request received, for checking what the plugin sent
+  requests: HoarderRequest[] = [];
+  private nextId = 1;
+
+  constructor(private apiKey: string) {}
+
+  transport: HoarderTransport = async (request) => {
+    this.requests.push(request);
+    if (request.headers["Authorization"] !== `Bearer ${this.apiKey}`) {
+      return jsonResponse(401, { error: "Unauthorized" });
+    }
+
+    const url = new URL(request.url);
+    const assetMatch = url.pathname.match(/^\/api\/assets\/([^/]+)$/);
+    if (assetMatch && request.method === "GET") {
+      const asset = this.assets.get(assetMatch[1]);
+      return asset
+        ? {
+            status: 200,
+            headers: {
+              "content-type": asset.contentType,
+              "content-length": String(asset.data.byteLength),
+            },
+            text: async () => new TextDecoder().decode(asset.data),
+            arrayBuffer: async () => asset.data,
+          }
+        : jsonResponse(404, { error: "Not found" });
+    }
+
+    const path = url.pathname.replace(/^\/api\/v1/, "");
+    const body: unknown =
+      typeof request.body === "string" ? JSON.parse(request.body) : {};
+    return this.route(request.method, path, url.searchParams, body);
+  };
+
+  private route(
+    method: HoarderRequest["method"],
+    path: string,
+    query: URLSearchParams,
+    body: unknown,
+  ): HoarderResponse {
+    const segments = path.split("/").filter(Boolean);
+    const [resource, id, child] = segments;
+
+    if (resource === "bookmarks" && id === "search" && method === "GET") {
+      const q = (query.get("q") ?? "").toLowerCase();
+      return this.page(
+        this.bookmarks.filter((bookmark) =>
+          JSON.stringify(bookmark).toLowerCase().includes(q),
+        ),
+        query,
+      );
+    }
+
+    if (resource === "bookmarks" && !id) {
+      if (method === "GET") {
+        const archived = query.get("archived");
+        const favourited = query.get("favourited");
+        return this.page(
+          this.bookmarks.filter(
+            (bookmark) =>
+              (archived === null || String(bookmark.archived) === archived) &&
+              (favourited === null ||
+                String(bookmark.favourited) === favourited),
+          ),
+          query,
+        );
+      }
+      if (method === "POST") {
+        const {
+          title = null,
+          archived = false,
+          favourited = false,
+          note = null,
+          summary = null,
+          createdAt,
+          ...content
+        } = body as NewHoarderBookmark;
+        const bookmark = this.addBookmark({
+          title,
+          archived,
+          favourited,
+          note,
+          summary,
+          content,
+        });
+        if (createdAt) {
+          bookmark.createdAt = createdAt;
+        }
+        return jsonResponse(201, bookmark);
+      }
+    }
+
+    if (resource === "bookmarks" && id) {
+      const bookmark = this.bookmarks.find((bookmark) => bookmark.id === id);
+      if (!bookmark) {
+        return jsonResponse(404, { error: "Bookmark not found" });
+      }
+
+      if (child === "tags") {
+        const names = ((body as TagsRequest).tags ?? []).map(
+          (tag) => tag.tagName,
+        );
+        if (method === "POST") {
+          for (const name of names) {
+            if (!bookmark.tags.some((tag) => tag.name === name)) {
+              bookmark.tags.push({
+                id: `tag-${name}`,
+                name,
+                attachedBy: "human",
+              });
+            }
+          }
+          this.touch(bookmark);
+          return jsonResponse(200, { attached: names });
+        }
+        if (method === "DELETE") {
+          bookmark.tags = bookmark.tags.filter(
+            (tag) => !names.includes(tag.name),
+          );
+          this.touch(bookmark);
+          return jsonResponse(200, { detached: names });
+        }
+      }
+
+      if (!child && method === "GET") {
+        return jsonResponse(200, bookmark);
+      }
+      if (!child && method === "PATCH") {
+        Object.assign(bookmark, body as HoarderBookmarkUpdate);
+        this.touch(bookmark);
+        return jsonResponse(200, bookmark);
+      }
+      if (!child && method === "DELETE") {
+        this.bookmarks = this.bookmarks.filter((other) => other !== bookmark);
+        return jsonResponse(204, undefined);
+      }
+    }
+
+    if (resource === "lists" && method === "GET") {
+      if (!id) {
+        return jsonResponse(200, {
+          lists: this.lists.map(({ list }) => list),
+        });
+      }
+      const entry = this.lists.find(({ list }) => list.id === id);
+      if (!entry) {
+        return jsonResponse(404, { error: "List not found" });
+      }
+      if (child === "bookmarks") {
+        return this.page(
+          this.bookmarks.filter((bookmark) =>
+            entry.bookmarkIds.includes(bookmark.id),
+          ),
+          query,
+        );
+      }
+      return jsonResponse(200, entry.list);
+    }
+
+    return jsonResponse(404, { error: `No route for ${method} ${path}` });
+  }
+
+  // Add a bookmark with the fields a new bookmark has on a real server
+  addBookmark(fields: Partial<HoarderBookmark> = {}) {
+    const id = `bookmark-${this.nextId++}`;
+    const now = new Date().toISOString();
+    const bookmark: HoarderBookmark = {
+      id,
+      createdAt: now,
+      modifiedAt: now,
+      title: null,
+      archived: false,
+      favourited: false,
+      taggingStatus: "success",
+      note: null,
+      summary: null,
+      tags: [],
+      content: { type: "link", url: `https://example.com/${id}` },
+      assets: [],
+      ...fields,
+    };
+    // The newest bookmarks come first, like on a real server
+    this.bookmarks.unshift(bookmark);
+    return bookmark;
+  }
+
+  private touch(bookmark: HoarderBookmark) {
+    bookmark.modifiedAt = new Date().toISOString();
+  }
+
+  // Cursors are the index of the first bookmark of the page
+  private page(bookmarks: HoarderBookmark[], query: URLSearchParams) {
+    const start = Number(query.get("cursor") ?? 0);
+    const limit = Number(query.get("limit") ?? 20);
+    const end = start + limit;
+    return jsonResponse(200, {
+      bookmarks: bookmarks.slice(start, end),
+      nextCursor: end < bookmarks.length ? String(end) : null,
+    });
+  }
+}
+
+// An undefined body answers with no content, like deletes do
+function jsonResponse(status: number, body: unknown): HoarderResponse {
+  const text = body === undefined ? "" : JSON.stringify(body);
+  return {
+    status,
+    headers: { "content-type": "application/json" },
+    text: async () => text,
+    arrayBuffer: async () => new TextEncoder().encode(text).buffer,
+  };
+}
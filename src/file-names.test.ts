@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  FileNameOptions,
+  formatFileName,
+  sanitizePathSegment,
+  validateFileNamePattern,
+} from "./file-names";
+
+const options: FileNameOptions = {
+  pattern: "{{date}}-{{title}}",
+  maxLength: 47,
+  keepSpaces: false,
+};
+
+const values = {
+  id: "abc123",
+  title: "A title",
+  createdAt: "2024-03-01T23:30:00.000Z",
+  type: "link",
+  url: "https://www.example.com/page",
+};
+
+describe("formatFileName", () => {
+  it("fills in the default pattern with the date in UTC", () => {
+    expect(formatFileName(options, values)).toBe("2024-03-01-A-title");
+  });
+
+  it("shortens long titles at a word boundary", () => {
+    const name = formatFileName(options, {
+      ...values,
+      title: "The quick brown fox jumps over the lazy dog again and again",
+    });
+    expect(name).toBe("2024-03-01-The-quick-brown-fox-jumps-over-the");
+    expect(name.length).toBeLessThanOrEqual(options.maxLength);
+  });
+
+  it("creates folders from slashes and date formats", () => {
+    expect(
+      formatFileName(
+        { ...options, pattern: "{{date:YYYY/MM}}/{{domain}}/{{title}}" },
+        values,
+      ),
+    ).toBe("2024/03/example.com/A-title");
+  });
+
+  it("keeps spaces when asked to", () => {
+    expect(
+      formatFileName(
+        { ...options, pattern: "{{title}} ({{id}})", keepSpaces: true },
+        { ...values, title: "What: a  title?" },
+      ),
+    ).toBe("What- a title (abc123)");
+  });
+
+  it("falls back to the id when nothing is left", () => {
+    expect(
+      formatFileName(
+        { ...options, pattern: "{{title}}" },
+        {
+          ...values,
+          title: "???",
+        },
+      ),
+    ).toBe("abc123");
+  });
+});
+
+describe("sanitizePathSegment", () => {
+  it("replaces characters that aren't allowed in file names", () => {
+    expect(sanitizePathSegment(' a/b\\c:d*e?f"g<h>i|j ', false)).toBe(
+      "a-b-c-d-e-f-g-h-i-j",
+    );
+  });
+});
+
+describe("validateFileNamePattern", () => {
+  it("accepts patterns with a title or id", () => {
+    expect(validateFileNamePattern("{{date}}-{{title}}")).toEqual([]);
+    expect(validateFileNamePattern("{{type}}/{{id}}")).toEqual([]);
+  });
+
+  it("reports unknown tokens, missing names and trailing folders", () => {
+    expect(validateFileNamePattern("{{name}}/")).toEqual([
+      'Unknown placeholder "{{name}}"',
+      "The pattern should contain {{title}} or {{id}}",
+      "The pattern must end with a file name, not a folder",
+    ]);
+  });
+});
@@ -0,0 +1,143 @@
+import { moment } from "obsidian";
+
+export interface FileNameOptions {
+  pattern: string;
+  maxLength: number;
+  keepSpaces: boolean;
+}
+
+export interface FileNameValues {
+  id: string;
+  title: string;
+  createdAt: string;
+  type: string;
+  url?: string;
+}
+
+export const FILE_NAME_TOKENS = ["title", "date", "id", "domain", "type"];
+
+const TOKEN_PATTERN = /\{\{\s*(\w+)(?::([^}]*))?\s*\}\}/g;
+
+// Identifies the file name settings that produced the current file names
+export function getFileNameSignature(options: FileNameOptions): string {
+  return JSON.stringify([
+    options.pattern,
+    options.maxLength,
+    options.keepSpaces,
+  ]);
+}
+
+// Make a single folder or file name safe for the vault
+export function sanitizePathSegment(
+  segment: string,
+  keepSpaces: boolean,
+): string {
+  let sanitized = segment.replace(/[\\/:*?"<>|]/g, "-"); // Replace invalid characters with dash
+  sanitized = keepSpaces
+    ? sanitized.replace(/\s+/g, " ") // Collapse whitespace
+    : sanitized.replace(/\s+/g, "-"); // Replace spaces with dash
+  return sanitized
+    .replace(/-+/g, "-") // Replace multiple dashes with single dash
+    .replace(/^[-\s]+|[-\s]+$/g, ""); // Remove dashes from start and end
+}
+
+// Shorten a title to the given length, preferring a word boundary
+function truncateTitle(title: string, maxLength: number): string {
+  if (title.length <= maxLength) {
+    return title;
+  }
+
+  const truncated = title.substring(0, Math.max(maxLength, 0));
+  const lastBreak = Math.max(
+    truncated.lastIndexOf("-"),
+    truncated.lastIndexOf(" "),
+  );
+  if (lastBreak > maxLength / 2) {
+    // If we can find a reasonable word break, use it
+    return truncated.substring(0, lastBreak);
+  }
+  return truncated;
+}
+
+function getDomain(url: string | undefined): string {
+  if (!url) return "";
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Build the vault path of a bookmark note (relative to the sync folder and
+ * without extension) from the file name pattern. Slashes in the pattern or in
+ * date formats create subfolders; the title is shortened so the file name
+ * stays within the maximum length.
+ */
+export function formatFileName(
+  options: FileNameOptions,
+  values: FileNameValues,
+): string {
+  const render = (title: string) =>
+    options.pattern.replace(TOKEN_PATTERN, (_, name: string, format) => {
+      switch (name) {
+        case "title":
+          return title;
+        case "date":
+          // In UTC, like the dates in file names have always been
+          return moment.utc(values.createdAt).format(format || "YYYY-MM-DD");
+        case "id":
+          return values.id;
+        case "domain":
+          return sanitizePathSegment(getDomain(values.url), options.keepSpaces);
+        case "type":
+          return values.type;
+        default:
+          return "";
+      }
+    });
+
+  const sanitizeSegments = (path: string) =>
+    path
+      .split("/")
+      .map((segment) => sanitizePathSegment(segment, options.keepSpaces))
+      .filter((segment) => segment.length > 0);
+
+  // Work out how much of the file name is left for the title. A placeholder
+  // title keeps the separators around it, which an empty one would lose.
+  const withoutTitle = sanitizeSegments(render("x"));
+  const fileNameLength =
+    (withoutTitle[withoutTitle.length - 1]?.length ?? 1) - 1;
+  const title = truncateTitle(
+    sanitizePathSegment(values.title, options.keepSpaces),
+    options.maxLength - fileNameLength,
+  );
+
+  const segments = sanitizeSegments(render(title));
+  if (segments.length === 0) {
+    return values.id;
+  }
+  return segments.join("/");
+}
+
+// Check a file name pattern for unknown tokens and missing titles or ids
+export function validateFileNamePattern(pattern: string): string[] {
+  const problems: string[] = [];
+  const tokens = Array.from(pattern.matchAll(TOKEN_PATTERN)).map(
+    (match) => match[1],
+  );
+
+  for (const token of tokens) {
+    if (!FILE_NAME_TOKENS.includes(token)) {
+      problems.push(`Unknown placeholder "{{${token}}}"`);
+    }
+  }
+  if (!tokens.includes("title") && !tokens.includes("id")) {
+    problems.push("The pattern should contain {{title}} or {{id}}");
+  }
+  if (pattern.trim().endsWith("/")) {
+    problems.push("The pattern must end with a file name, not a folder");
+  }
+
+  return problems;
+}
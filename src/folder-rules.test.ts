@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { FolderRuleCandidate, getRuleFolder } from "./folder-rules";
+
+const candidate: FolderRuleCandidate = {
+  tags: ["Reading", "dev"],
+  lists: ["Inbox"],
+  types: ["asset", "pdf"],
+  domain: "gist.github.com",
+};
+
+describe("getRuleFolder", () => {
+  it("uses the first matching rule", () => {
+    expect(
+      getRuleFolder(
+        [
+          { type: "tag", value: "missing", folder: "Nope" },
+          { type: "list", value: "inbox", folder: "Lists/Inbox" },
+          { type: "tag", value: "dev", folder: "Dev" },
+        ],
+        candidate,
+      ),
+    ).toBe("Lists/Inbox");
+  });
+
+  it("matches types, and domains including subdomains", () => {
+    expect(
+      getRuleFolder(
+        [{ type: "type", value: "PDF", folder: "PDFs" }],
+        candidate,
+      ),
+    ).toBe("PDFs");
+    expect(
+      getRuleFolder(
+        [{ type: "domain", value: "github.com", folder: "Code" }],
+        candidate,
+      ),
+    ).toBe("Code");
+    expect(
+      getRuleFolder(
+        [{ type: "domain", value: "hub.com", folder: "Code" }],
+        candidate,
+      ),
+    ).toBeNull();
+  });
+
+  it("puts the match of a wildcard rule into the folder", () => {
+    expect(
+      getRuleFolder(
+        [{ type: "tag", value: "*", folder: "Tags/{{match}}" }],
+        candidate,
+      ),
+    ).toBe("Tags/Reading");
+    expect(
+      getRuleFolder([{ type: "tag", value: "*", folder: "Tags/{{ match }}" }], {
+        ...candidate,
+        tags: ["a/b:c"],
+      }),
+    ).toBe("Tags/a-b-c");
+  });
+
+  it("skips rules without a value or folder", () => {
+    expect(
+      getRuleFolder(
+        [
+          { type: "tag", value: " ", folder: "Empty value" },
+          { type: "tag", value: "dev", folder: " " },
+        ],
+        candidate,
+      ),
+    ).toBeNull();
+  });
+});
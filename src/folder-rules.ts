@@ -0,0 +1,86 @@
+export type FolderRuleType = "tag" | "list" | "type" | "domain";
+
+export interface FolderRule {
+  type: FolderRuleType;
+  // Value to match, or "*" to match any tag, list, type or domain
+  value: string;
+  // Vault folder for matching bookmarks; "{{match}}" is replaced by the
+  // matched tag, list, type or domain
+  folder: string;
+}
+
+export interface FolderRuleCandidate {
+  tags: string[];
+  lists: string[];
+  // Content type plus asset type, e.g. ["asset", "pdf"]
+  types: string[];
+  domain: string;
+}
+
+export const FOLDER_RULE_TYPES: Record<FolderRuleType, string> = {
+  tag: "Tag",
+  list: "List",
+  type: "Content type",
+  domain: "Domain",
+};
+
+function matchRule(
+  rule: FolderRule,
+  candidate: FolderRuleCandidate,
+): string | null {
+  const value = rule.value.trim().toLowerCase();
+  if (!value) return null;
+
+  let values: string[];
+  switch (rule.type) {
+    case "tag":
+      values = candidate.tags;
+      break;
+    case "list":
+      values = candidate.lists;
+      break;
+    case "type":
+      values = candidate.types;
+      break;
+    case "domain":
+      // Match subdomains as well, e.g. gist.github.com for github.com
+      if (
+        candidate.domain &&
+        (value === "*" ||
+          candidate.domain === value ||
+          candidate.domain.endsWith(`.${value}`))
+      ) {
+        return candidate.domain;
+      }
+      return null;
+  }
+
+  if (value === "*") {
+    return values[0] ?? null;
+  }
+  return (
+    values.find((candidateValue) => candidateValue.toLowerCase() === value) ??
+    null
+  );
+}
+
+/**
+ * Find the folder of the first rule matching a bookmark, or null when no
+ * rule matches. Rules are checked in order.
+ */
+export function getRuleFolder(
+  rules: FolderRule[],
+  candidate: FolderRuleCandidate,
+): string | null {
+  for (const rule of rules) {
+    if (!rule.folder.trim()) continue;
+
+    const match = matchRule(rule, candidate);
+    if (match !== null) {
+      return rule.folder
+        .replace(/\{\{\s*match\s*\}\}/g, match.replace(/[\\/:*?"<>|]/g, "-"))
+        .trim();
+    }
+  }
+  return null;
+}
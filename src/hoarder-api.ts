@@ -0,0 +1,612 @@
+/**
+ * Client for the Hoarder REST API. The types mirror the schemas and request
+ * bodies of spec/hoarder-openapi.json and should be updated with the spec.
+ * All requests go through a transport, so the client can be pointed at a
+ * fake server in tests.
+ */
+
+export interface HoarderBookmarkTag {
+  id: string;
+  name: string;
+  attachedBy: "ai" | "human";
+}
+
+// The spec describes one content object per type. They are merged here since
+// most of the plugin reads the optional fields without narrowing the type.
+export interface HoarderBookmarkContent {
+  type: "link" | "text" | "asset" | "unknown";
+  // link
+  url?: string;
+  title?: string | null;
+  description?: string | null;
+  imageUrl?: string | null;
+  imageAssetId?: string | null;
+  screenshotAssetId?: string | null;
+  fullPageArchiveAssetId?: string | null;
+  videoAssetId?: string | null;
+  favicon?: string | null;
+  htmlContent?: string | null;
+  crawledAt?: string | null;
+  // text
+  text?: string;
+  // text and asset
+  sourceUrl?: string | null;
+  // asset
+  assetType?: "image" | "pdf";
+  assetId?: string;
+  fileName?: string | null;
+}
+
+export interface HoarderBookmarkAsset {
+  id: string;
+  assetType:
+    | "screenshot"
+    | "bannerImage"
+    | "fullPageArchive"
+    | "video"
+    | "bookmarkAsset"
+    | "unknown";
+}
+
+export interface HoarderBookmark {
+  id: string;
+  createdAt: string;
+  // Not in the bundled spec, only returned by newer servers
+  modifiedAt?: string | null;
+  title: string | null;
+  archived: boolean;
+  favourited: boolean;
+  taggingStatus: "success" | "failure" | "pending" | null;
+  note?: string | null;
+  summary?: string | null;
+  tags: HoarderBookmarkTag[];
+  content: HoarderBookmarkContent;
+  assets: HoarderBookmarkAsset[];
+}
+
+export interface HoarderBookmarkPage {
+  bookmarks: HoarderBookmark[];
+  nextCursor: string | null;
+}
+
+export interface HoarderPageOptions {
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface HoarderBookmarkFilters extends HoarderPageOptions {
+  archived?: boolean;
+  favourited?: boolean;
+}
+
+// Bookmarks that can be created, together with their optional fields
+export type NewHoarderBookmark = {
+  title?: string | null;
+  archived?: boolean;
+  favourited?: boolean;
+  note?: string;
+  summary?: string;
+  createdAt?: string;
+} & (
+  | { type: "link"; url: string }
+  | { type: "text"; text: string; sourceUrl?: string }
+  | {
+      type: "asset";
+      assetType: "image" | "pdf";
+      assetId: string;
+      fileName?: string;
+      sourceUrl?: string;
+    }
+);
+
+export interface HoarderBookmarkUpdate {
+  archived?: boolean;
+  favourited?: boolean;
+  summary?: string | null;
+  note?: string;
+  title?: string | null;
+  createdAt?: string;
+}
+
+export interface HoarderList {
+  id: string;
+  name: string;
+  icon: string;
+  parentId: string | null;
+}
+
+export interface NewHoarderList {
+  name: string;
+  icon: string;
+  parentId?: string | null;
+}
+
+export interface HoarderTag {
+  id: string;
+  name: string;
+  numBookmarks: number;
+  numBookmarksByAttachedType: { ai?: number; human?: number };
+}
+
+// Returned by the asset upload, which isn't part of the versioned API
+export interface HoarderUploadedAsset {
+  assetId: string;
+  contentType: string;
+  size: number;
+  fileName: string;
+}
+
+export interface HoarderRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  headers: Record<string, string>;
+  body?: string | ArrayBuffer;
+  // Fires when the request timed out. Transports that can abort a request
+  // should stop it.
+  signal?: AbortSignal;
+}
+
+export interface HoarderResponse {
+  status: number;
+  // Header names are lower case
+  headers: Record<string, string>;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+// Sends a request and resolves with the response whatever its status. Only
+// network failures should reject.
+export type HoarderTransport = (
+  request: HoarderRequest,
+) => Promise<HoarderResponse>;
+
+export const fetchTransport: HoarderTransport = async (request) => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+  });
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+
+  return {
+    status: response.status,
+    headers,
+    text: () => response.text(),
+    arrayBuffer: () => response.arrayBuffer(),
+  };
+};
+
+/**
+ * Thrown for every failed request. `status` is the HTTP status, or 0 when the
+ * server couldn't be reached or didn't answer in time, and `body` the
+ * response body if there was one.
+ */
+export class HoarderApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: string = "",
+    // How long the server asked to wait before trying again
+    readonly retryAfterMs: number | null = null,
+  ) {
+    super(message);
+    this.name = "HoarderApiError";
+  }
+}
+
+// Thrown by transports when the server answers, but its CORS policy keeps the
+// response from the plugin
+export class HoarderCorsError extends HoarderApiError {
+  constructor(message: string) {
+    super(message, 0);
+    this.name = "HoarderCorsError";
+  }
+}
+
+// Thrown when a successful response isn't JSON, e.g. the web app answering a
+// wrong API path with an HTML page
+export class HoarderInvalidResponseError extends HoarderApiError {
+  constructor(status: number, body: string) {
+    super(`Invalid JSON in response (status ${status})`, status, body);
+    this.name = "HoarderInvalidResponseError";
+  }
+}
+
+// Failures that are likely to go away when the request is sent again
+export function isRetryableError(error: unknown): boolean {
+  return (
+    error instanceof HoarderApiError &&
+    !(error instanceof HoarderCorsError) &&
+    (error.status === 0 || error.status === 429 || error.status >= 500)
+  );
+}
+
+export interface HoarderClientConfig {
+  baseUrl: string;
+  apiPath: string;
+  apiKey: string;
+  // How long to wait for a response, 0 to wait forever
+  timeoutMs: number;
+  // How often a request that failed with a retryable error is sent again
+  maxRetries: number;
+}
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+// A server asking to wait longer than this is treated as failing
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+export class HoarderClient {
+  // The config is read on every request so settings changes apply right away
+  constructor(
+    private getConfig: () => HoarderClientConfig,
+    public transport: HoarderTransport = fetchTransport,
+  ) {}
+
+  // Bookmarks
+
+  getBookmarks(
+    filters: HoarderBookmarkFilters = {},
+  ): Promise<HoarderBookmarkPage> {
+    return this.requestJson("GET", "/bookmarks", { query: filters });
+  }
+
+  // Full-text search, available on Hoarder servers with the search endpoint
+  searchBookmarks(
+    query: string,
+    options: HoarderPageOptions = {},
+  ): Promise<HoarderBookmarkPage> {
+    return this.requestJson("GET", "/bookmarks/search", {
+      query: { q: query, ...options },
+    });
+  }
+
+  getBookmark(bookmarkId: string): Promise<HoarderBookmark> {
+    return this.requestJson("GET", `/bookmarks/${bookmarkId}`);
+  }
+
+  createBookmark(bookmark: NewHoarderBookmark): Promise<HoarderBookmark> {
+    return this.requestJson("POST", "/bookmarks", { body: bookmark });
+  }
+
+  async updateBookmark(
+    bookmarkId: string,
+    update: HoarderBookmarkUpdate,
+  ): Promise<void> {
+    await this.requestJson("PATCH", `/bookmarks/${bookmarkId}`, {
+      body: update,
+    });
+  }
+
+  async deleteBookmark(bookmarkId: string): Promise<void> {
+    await this.requestJson("DELETE", `/bookmarks/${bookmarkId}`);
+  }
+
+  // Attach tags by name, creating the ones that don't exist yet
+  async attachTags(bookmarkId: string, tagNames: string[]): Promise<string[]> {
+    const result = await this.requestJson<{ attached: string[] }>(
+      "POST",
+      `/bookmarks/${bookmarkId}/tags`,
+      { body: { tags: tagNames.map((tagName) => ({ tagName })) } },
+    );
+    return result.attached;
+  }
+
+  async detachTags(bookmarkId: string, tagNames: string[]): Promise<string[]> {
+    const result = await this.requestJson<{ detached: string[] }>(
+      "DELETE",
+      `/bookmarks/${bookmarkId}/tags`,
+      { body: { tags: tagNames.map((tagName) => ({ tagName })) } },
+    );
+    return result.detached;
+  }
+
+  // Lists
+
+  async getLists(): Promise<HoarderList[]> {
+    const result = await this.requestJson<{ lists: HoarderList[] }>(
+      "GET",
+      "/lists",
+    );
+    return result.lists || [];
+  }
+
+  getList(listId: string): Promise<HoarderList> {
+    return this.requestJson("GET", `/lists/${listId}`);
+  }
+
+  createList(list: NewHoarderList): Promise<HoarderList> {
+    return this.requestJson("POST", "/lists", { body: list });
+  }
+
+  // The spec puts this endpoint under /list rather than /lists
+  updateList(
+    listId: string,
+    update: Partial<NewHoarderList>,
+  ): Promise<HoarderList> {
+    return this.requestJson("PATCH", `/list/${listId}`, { body: update });
+  }
+
+  async deleteList(listId: string): Promise<void> {
+    await this.requestJson("DELETE", `/lists/${listId}`);
+  }
+
+  getListBookmarks(
+    listId: string,
+    options: HoarderPageOptions = {},
+  ): Promise<HoarderBookmarkPage> {
+    return this.requestJson("GET", `/lists/${listId}/bookmarks`, {
+      query: options,
+    });
+  }
+
+  async addBookmarkToList(listId: string, bookmarkId: string): Promise<void> {
+    await this.requestJson("PUT", `/lists/${listId}/bookmarks/${bookmarkId}`);
+  }
+
+  async removeBookmarkFromList(
+    listId: string,
+    bookmarkId: string,
+  ): Promise<void> {
+    await this.requestJson(
+      "DELETE",
+      `/lists/${listId}/bookmarks/${bookmarkId}`,
+    );
+  }
+
+  // Tags
+
+  async getTags(): Promise<HoarderTag[]> {
+    const result = await this.requestJson<{ tags: HoarderTag[] }>(
+      "GET",
+      "/tags",
+    );
+    return result.tags || [];
+  }
+
+  getTag(tagId: string): Promise<HoarderTag> {
+    return this.requestJson("GET", `/tags/${tagId}`);
+  }
+
+  updateTag(tagId: string, update: { name: string }): Promise<HoarderTag> {
+    return this.requestJson("PATCH", `/tags/${tagId}`, { body: update });
+  }
+
+  async deleteTag(tagId: string): Promise<void> {
+    await this.requestJson("DELETE", `/tags/${tagId}`);
+  }
+
+  getTagBookmarks(
+    tagId: string,
+    options: HoarderPageOptions = {},
+  ): Promise<HoarderBookmarkPage> {
+    return this.requestJson("GET", `/tags/${tagId}/bookmarks`, {
+      query: options,
+    });
+  }
+
+  // Assets live outside the versioned API, at /api/assets
+
+  getAssetUrl(assetId: string): string {
+    return `${this.getConfig().baseUrl}/api/assets/${assetId}`;
+  }
+
+  async uploadAsset(
+    data: ArrayBuffer,
+    fileName: string,
+    contentType: string,
+  ): Promise<HoarderUploadedAsset> {
+    const multipart = buildMultipartBody("file", fileName, contentType, data);
+    const response = await this.send({
+      method: "POST",
+      url: `${this.getConfig().baseUrl}/api/assets`,
+      headers: {
+        ...this.getAuthHeaders(),
+        "Content-Type": multipart.contentType,
+      },
+      body: multipart.body,
+    });
+    return this.readJson(response);
+  }
+
+  getAsset(assetId: string): Promise<HoarderResponse> {
+    return this.download(this.getAssetUrl(assetId));
+  }
+
+  /**
+   * Download any file, such as an asset or an image on another site. The API
+   * key is only sent to the Hoarder server. The body is left unread so the
+   * caller can check the headers first.
+   */
+  download(url: string): Promise<HoarderResponse> {
+    const isHoarderUrl =
+      new URL(url).origin === new URL(this.getConfig().baseUrl).origin;
+    return this.send({
+      method: "GET",
+      url,
+      headers: isHoarderUrl ? this.getAuthHeaders() : {},
+    });
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.getConfig().apiKey}` };
+  }
+
+  private async requestJson<T>(
+    method: HoarderRequest["method"],
+    path: string,
+    options: {
+      query?: HoarderBookmarkFilters & { q?: string };
+      body?: unknown;
+    } = {},
+  ): Promise<T> {
+    const { baseUrl, apiPath } = this.getConfig();
+    const queryParams = new URLSearchParams();
+    for (const [name, value] of Object.entries(options.query ?? {})) {
+      if (value !== undefined && value !== null) {
+        queryParams.append(name, String(value));
+      }
+    }
+    const query = queryParams.toString();
+
+    const response = await this.send({
+      method,
+      url: `${baseUrl}${apiPath}${path}${query ? `?${query}` : ""}`,
+      headers: {
+        ...this.getAuthHeaders(),
+        "Content-Type": "application/json",
+      },
+      body:
+        options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    return this.readJson(response);
+  }
+
+  private async readJson<T>(response: HoarderResponse): Promise<T> {
+    // Deletes answer with an empty body
+    const text = await response.text();
+    if (!text) {
+      return undefined as T;
+    }
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new HoarderInvalidResponseError(response.status, text);
+    }
+  }
+
+  // Send a request, retrying network errors, server errors and rate limits
+  // with exponential backoff
+  private async send(request: HoarderRequest): Promise<HoarderResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendOnce(request);
+      } catch (error) {
+        // A create that failed on the way back may still have gone through,
+        // so POSTs are only sent again when they were rate limited
+        const retryable =
+          request.method === "POST"
+            ? error instanceof HoarderApiError && error.status === 429
+            : isRetryableError(error);
+        const delay = getRetryDelay(error, attempt);
+        if (
+          !retryable ||
+          attempt >= this.getConfig().maxRetries ||
+          delay === null
+        ) {
+          throw error;
+        }
+
+        console.warn(
+          `${request.method} ${request.url} failed (${error.message}), retrying in ${Math.ceil(delay / 1000)}s`,
+        );
+        await wait(delay);
+      }
+    }
+  }
+
+  private async sendOnce(request: HoarderRequest): Promise<HoarderResponse> {
+    const { timeoutMs } = this.getConfig();
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          reject(
+            new HoarderApiError(
+              `Request timed out after ${timeoutMs / 1000}s`,
+              0,
+            ),
+          );
+          controller.abort();
+        }, timeoutMs);
+      }
+    });
+
+    let response: HoarderResponse;
+    try {
+      response = await Promise.race([
+        this.transport({ ...request, signal: controller.signal }),
+        timeout,
+      ]);
+    } catch (error) {
+      if (error instanceof HoarderApiError) throw error;
+      throw new HoarderApiError(`Network error: ${error.message}`, 0);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      const body = await response.text().catch(() => "");
+      throw new HoarderApiError(
+        `HTTP error! status: ${response.status}`,
+        response.status,
+        body,
+        parseRetryAfter(response.headers["retry-after"]),
+      );
+    }
+    return response;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// How long to wait before the next attempt, or null if it's not worth waiting
+function getRetryDelay(error: unknown, attempt: number): number | null {
+  if (error instanceof HoarderApiError && error.retryAfterMs !== null) {
+    return error.retryAfterMs > MAX_RETRY_AFTER_MS ? null : error.retryAfterMs;
+  }
+  // Half of the backoff is random, so clients don't retry in lockstep
+  const backoff = Math.min(
+    MAX_RETRY_DELAY_MS,
+    INITIAL_RETRY_DELAY_MS * 2 ** attempt,
+  );
+  return backoff / 2 + (Math.random() * backoff) / 2;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Built by hand rather than with FormData so that any transport can send it
+function buildMultipartBody(
+  fieldName: string,
+  fileName: string,
+  contentType: string,
+  data: ArrayBuffer,
+): { body: ArrayBuffer; contentType: string } {
+  const boundary = `----HoarderFormBoundary${Math.random().toString(36).slice(2)}`;
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="${fieldName}"; filename="${fileName.replace(/"/g, "%22")}"\r\n` +
+      `Content-Type: ${contentType}\r\n\r\n`,
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+  const body = new Uint8Array(head.length + data.byteLength + tail.length);
+  body.set(head, 0);
+  body.set(new Uint8Array(data), head.length);
+  body.set(tail, head.length + data.byteLength);
+  return {
+    body: body.buffer,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
@@ -0,0 +1,118 @@
+import { App, Modal, Setting, SuggestModal, TFolder } from "obsidian";
+import { FoundLink } from "./link-import";
+
+// Lets the user pick which of the found links to import
+export class LinkImportModal extends Modal {
+  private selected: Set<string>;
+
+  constructor(
+    app: App,
+    private links: FoundLink[],
+    private onImport: (urls: string[]) => void,
+  ) {
+    super(app);
+    this.selected = new Set(links.map((link) => link.url));
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText(
+      `Import ${this.links.length} link${this.links.length === 1 ? "" : "s"} into Hoarder`,
+    );
+
+    const checkboxes: HTMLInputElement[] = [];
+    const listEl = contentEl.createDiv({ cls: "hoarder-link-import-list" });
+    for (const link of this.links) {
+      const itemEl = listEl.createEl("label", {
+        cls: "hoarder-link-import-item",
+      });
+      const checkbox = itemEl.createEl("input", { type: "checkbox" });
+      checkbox.checked = true;
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) {
+          this.selected.add(link.url);
+        } else {
+          this.selected.delete(link.url);
+        }
+        updateButton();
+      });
+      checkboxes.push(checkbox);
+
+      const textEl = itemEl.createDiv();
+      textEl.createDiv({ text: link.url });
+      textEl.createEl("small", { text: link.sources.join(", ") });
+    }
+
+    const setAll = (checked: boolean) => {
+      checkboxes.forEach((checkbox) => {
+        checkbox.checked = checked;
+      });
+      this.selected = new Set(checked ? this.links.map((link) => link.url) : []);
+      updateButton();
+    };
+
+    let importButton: HTMLButtonElement;
+    const updateButton = () => {
+      importButton.setText(
+        `Import ${this.selected.size} link${this.selected.size === 1 ? "" : "s"}`,
+      );
+      importButton.disabled = this.selected.size === 0;
+    };
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText("Select all").onClick(() => setAll(true)),
+      )
+      .addButton((button) =>
+        button.setButtonText("Select none").onClick(() => setAll(false)),
+      )
+      .addButton((button) => {
+        importButton = button.buttonEl;
+        button.setCta().onClick(() => {
+          this.close();
+          // Keep the order the links were found in
+          this.onImport(
+            this.links
+              .map((link) => link.url)
+              .filter((url) => this.selected.has(url)),
+          );
+        });
+      });
+    updateButton();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+// Lets the user pick a folder whose notes to scan for links
+export class FolderChooserModal extends SuggestModal<TFolder> {
+  constructor(
+    app: App,
+    private onChoose: (folder: TFolder) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Choose a folder to import links from");
+  }
+
+  getSuggestions(query: string): TFolder[] {
+    const lowerCaseQuery = query.toLowerCase();
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter(
+        (file): file is TFolder =>
+          file instanceof TFolder &&
+          file.path.toLowerCase().contains(lowerCaseQuery),
+      );
+  }
+
+  renderSuggestion(folder: TFolder, el: HTMLElement) {
+    el.setText(folder.path);
+  }
+
+  onChooseSuggestion(folder: TFolder) {
+    this.onChoose(folder);
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { collectLinks, extractUrls, getUrlKey } from "./link-import";
+
+describe("getUrlKey", () => {
+  it("ignores case, fragments, trailing slashes and whitespace", () => {
+    expect(getUrlKey("https://Example.com/Page/#top\n")).toBe(
+      "https://example.com/page",
+    );
+  });
+});
+
+describe("extractUrls", () => {
+  it("finds each URL of the body once, without trailing punctuation", () => {
+    const content = [
+      "---",
+      "url: https://frontmatter.example.com",
+      "---",
+      "See https://example.com/a, and [a link](https://example.com/b).",
+      "Again: https://example.com/a.",
+    ].join("\n");
+
+    expect(extractUrls(content)).toEqual([
+      "https://example.com/a",
+      "https://example.com/b",
+    ]);
+  });
+});
+
+describe("collectLinks", () => {
+  it("merges links found in several notes and leaves out known ones", () => {
+    const links = collectLinks(
+      [
+        { path: "One.md", content: "https://example.com/a https://known.com" },
+        { path: "Two.md", content: "https://example.com/a/ https://b.com" },
+      ],
+      new Set([getUrlKey("https://known.com")]),
+    );
+
+    expect(links).toEqual([
+      { url: "https://example.com/a", sources: ["One.md", "Two.md"] },
+      { url: "https://b.com", sources: ["Two.md"] },
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import { getFrontMatterInfo } from "obsidian";
+import { trimUrl, URL_PATTERN } from "./editor-targets";
+
+export interface FoundLink {
+  url: string;
+  // Paths of the notes the link was found in
+  sources: string[];
+}
+
+// Key used to compare URLs, ignoring the fragment and a trailing slash.
+// Block scalars in frontmatter leave a trailing newline on the URL.
+export function getUrlKey(url: string): string {
+  return url.trim().replace(/#.*$/, "").replace(/\/+$/, "").toLowerCase();
+}
+
+// Every external URL in a note body, in order of appearance
+export function extractUrls(content: string): string[] {
+  const body = content.slice(getFrontMatterInfo(content).contentStart);
+  const urls: string[] = [];
+  for (const match of body.matchAll(URL_PATTERN)) {
+    const url = trimUrl(match[0]);
+    if (!urls.includes(url)) {
+      urls.push(url);
+    }
+  }
+  return urls;
+}
+
+/**
+ * Collect the links of several notes, merging links found in more than one
+ * note and leaving out those whose key is in `knownUrlKeys`.
+ */
+export function collectLinks(
+  notes: { path: string; content: string }[],
+  knownUrlKeys: Set<string>,
+): FoundLink[] {
+  const links = new Map<string, FoundLink>();
+  for (const { path, content } of notes) {
+    for (const url of extractUrls(content)) {
+      const key = getUrlKey(url);
+      if (knownUrlKeys.has(key)) continue;
+
+      const link = links.get(key);
+      if (!link) {
+        links.set(key, { url, sources: [path] });
+      } else if (!link.sources.includes(path)) {
+        link.sources.push(path);
+      }
+    }
+  }
+  return Array.from(links.values());
+}
@@ -0,0 +1,502 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  getFrontMatterInfo,
+  parseYaml,
+  type App as ObsidianApp,
+  type PluginManifest,
+  type TFile,
+} from "obsidian";
+import { App } from "./__mocks__/obsidian";
+import { AttachmentStore } from "./attachment-store";
+import { BookmarkIndex } from "./bookmark-index";
+import { FakeHoarderServer } from "./fake-hoarder";
+import HoarderPlugin from "./main";
+import { HoarderSettings, createSyncProfile } from "./settings";
+
+const API_KEY = "test-key";
+const BASE_URL = "https://hoarder.test";
+
+const manifest: PluginManifest = {
+  id: "obsidian-hoarder",
+  name: "Hoarder Sync",
+  version: "0.0.0",
+  minAppVersion: "0.0.0",
+  author: "",
+  description: "",
+};
+
+// A plugin with an empty vault, wired up like onload does but without the UI
+async function createPlugin(
+  server: FakeHoarderServer,
+  settings: Partial<HoarderSettings> = {},
+) {
+  const app = new App();
+  const plugin = new HoarderPlugin(app as unknown as ObsidianApp, manifest);
+  await plugin.saveData({
+    apiKey: API_KEY,
+    apiBaseUrl: BASE_URL,
+    maxRetries: 0,
+    ...settings,
+  });
+  await plugin.loadSettings();
+  plugin.transport = server.transport;
+
+  plugin.bookmarkIndex = new BookmarkIndex(plugin.app);
+  plugin.attachmentStore = new AttachmentStore(
+    plugin.app,
+    () => plugin.settings.attachmentsFolder,
+  );
+  app.metadataCache.on("changed", (file) =>
+    plugin.bookmarkIndex.updateFromCache(file as unknown as TFile),
+  );
+  app.vault.on("rename", (file, oldPath) =>
+    plugin.bookmarkIndex.rename(
+      oldPath as string,
+      (file as { path: string }).path,
+    ),
+  );
+  app.vault.on("delete", (file) =>
+    plugin.bookmarkIndex.removePath((file as { path: string }).path),
+  );
+  return { app, plugin };
+}
+
+function readNote(app: App, plugin: HoarderPlugin, bookmarkId: string) {
+  const file = plugin.bookmarkIndex.getFile(bookmarkId);
+  expect(file).toBeTruthy();
+  return app.vault.readPath(file?.path ?? "");
+}
+
+describe("syncBookmarks", () => {
+  let server: FakeHoarderServer;
+
+  beforeEach(() => {
+    server = new FakeHoarderServer(API_KEY);
+  });
+
+  it("creates a note for every bookmark across pages", async () => {
+    for (let i = 1; i <= 45; i++) {
+      server.addBookmark({ title: `Bookmark ${i}` });
+    }
+    const { app, plugin } = await createPlugin(server, {
+      excludeArchived: false,
+    });
+
+    const result = await plugin.syncBookmarks();
+
+    expect(result.success).toBe(true);
+    const notes = app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith("Hoarder/"));
+    expect(notes).toHaveLength(45);
+    expect(readNote(app, plugin, "bookmark-1")).toContain(
+      "title: Bookmark 1\n",
+    );
+    expect(plugin.settings.lastSyncTimestamp).toBeGreaterThan(0);
+    expect(plugin.settings.syncCheckpoint).toBeNull();
+  });
+
+  it("gives bookmarks with the same title their own notes", async () => {
+    const createdAt = "2024-03-01T12:00:00.000Z";
+    const bookmarks = [1, 2, 3].map(() =>
+      server.addBookmark({ title: "Same", createdAt }),
+    );
+    const { plugin } = await createPlugin(server);
+
+    await plugin.syncBookmarks();
+
+    expect(
+      bookmarks.map(({ id }) => plugin.bookmarkIndex.getFile(id)?.path).sort(),
+    ).toEqual([
+      "Hoarder/2024-03-01-Same-bookmark-1.md",
+      "Hoarder/2024-03-01-Same-bookmark.md",
+      "Hoarder/2024-03-01-Same.md",
+    ]);
+  });
+
+  it("leaves out archived bookmarks when asked to", async () => {
+    server.addBookmark({ title: "Kept" });
+    server.addBookmark({ title: "Archived", archived: true });
+    const { plugin } = await createPlugin(server, { excludeArchived: true });
+
+    await plugin.syncBookmarks();
+
+    expect(plugin.bookmarkIndex.getFile("bookmark-1")?.path).toBeTruthy();
+    expect(plugin.bookmarkIndex.getFile("bookmark-2")?.path).toBeFalsy();
+  });
+
+  it("updates changed bookmarks on an incremental sync", async () => {
+    const bookmark = server.addBookmark({ title: "Before" });
+    const { app, plugin } = await createPlugin(server, {
+      updateExistingFiles: true,
+    });
+    await plugin.syncBookmarks();
+
+    bookmark.title = "After";
+    bookmark.modifiedAt = new Date(Date.now() + 1000).toISOString();
+    await plugin.syncBookmarks();
+
+    const note = readNote(app, plugin, bookmark.id);
+    expect(note).toContain("title: After\n");
+    expect(note).toContain("# After\n");
+  });
+
+  it("renames notes after a title edited in the note", async () => {
+    const bookmark = server.addBookmark({ title: "Before" });
+    const { app, plugin } = await createPlugin(server, {
+      syncPropertiesToHoarder: true,
+    });
+    await plugin.syncBookmarks();
+    const file = plugin.bookmarkIndex.getFile(bookmark.id)!;
+    await app.fileManager.processFrontMatter(file as never, (frontmatter) => {
+      frontmatter["title"] = "Edited";
+    });
+
+    // Pushed when the note is saved, before the next sync
+    await plugin["syncPropertiesFromFile"](file, bookmark.id);
+    await plugin.syncBookmarks(true);
+
+    expect(bookmark.title).toBe("Edited");
+    expect(plugin.bookmarkIndex.getFile(bookmark.id)?.basename).toMatch(
+      /Edited$/,
+    );
+  });
+
+  it("updates notes whose titles mix quotes", async () => {
+    const title = `He said "it's"`;
+    const bookmark = server.addBookmark({ title });
+    const { app, plugin } = await createPlugin(server, {
+      updateExistingFiles: true,
+    });
+    await plugin.syncBookmarks();
+
+    const result = await plugin.syncBookmarks(true);
+
+    expect(result.success).toBe(true);
+    const note = readNote(app, plugin, bookmark.id);
+    expect(parseYaml(getFrontMatterInfo(note).frontmatter)).toMatchObject({
+      title,
+      original_title: title,
+    });
+  });
+
+  it("adds markers to notes written before managed sections", async () => {
+    const bookmark = server.addBookmark({ title: "Current" });
+    const { app, plugin } = await createPlugin(server, {
+      updateExistingFiles: true,
+    });
+    await app.vault.create(
+      "Legacy.md",
+      [
+        "---",
+        `bookmark_id: ${bookmark.id}`,
+        "title: Old",
+        "original_note: ",
+        "---",
+        "",
+        "# Old",
+        "",
+        "## Notes",
+        "",
+        "My notes",
+        "",
+      ].join("\n"),
+    );
+
+    await plugin.syncBookmarks();
+
+    const note = readNote(app, plugin, bookmark.id);
+    expect(note).toContain("%% hoarder-start: content %%\n# Current\n");
+    expect(note).not.toContain("# Old");
+    expect(note).toContain("## Notes\n\nMy notes\n");
+
+    // From now on only the marked sections are replaced
+    const file = plugin.bookmarkIndex.getFile(bookmark.id)!;
+    await app.vault.modify(
+      file as never,
+      note.replace(/%% hoarder-(start|end): content %%\n/g, ""),
+    );
+    bookmark.title = "Newer";
+    await plugin.syncBookmarks(true);
+    expect(readNote(app, plugin, bookmark.id)).toContain("# Current\n");
+  });
+
+  it("brings notes changed in Hoarder into the Notes section", async () => {
+    const bookmark = server.addBookmark({ title: "Noted" });
+    const { app, plugin } = await createPlugin(server, {
+      updateExistingFiles: true,
+    });
+    await plugin.syncBookmarks();
+
+    bookmark.note = "Written in Hoarder";
+    await plugin.syncBookmarks(true);
+
+    expect(readNote(app, plugin, bookmark.id)).toContain(
+      "## Notes\n\nWritten in Hoarder\n",
+    );
+  });
+
+  it("marks notes of bookmarks deleted in Hoarder", async () => {
+    const kept = server.addBookmark({ title: "Kept" });
+    const deleted = server.addBookmark({ title: "Deleted" });
+    const { app, plugin } = await createPlugin(server);
+    await plugin.syncBookmarks();
+
+    server.bookmarks = server.bookmarks.filter(
+      (bookmark) => bookmark !== deleted,
+    );
+    await plugin.syncBookmarks(true);
+
+    expect(readNote(app, plugin, deleted.id)).toContain(
+      "hoarder_status: deleted",
+    );
+    expect(readNote(app, plugin, kept.id)).not.toContain("hoarder_status");
+  });
+
+  it("asks about bookmarks left out by the filters only once", async () => {
+    const bookmark = server.addBookmark({ title: "Liked", favourited: true });
+    const { app, plugin } = await createPlugin(server, { onlyFavorites: true });
+    await plugin.syncBookmarks();
+    const lookups = () =>
+      server.requests.filter((request) =>
+        request.url.endsWith(`/bookmarks/${bookmark.id}`),
+      );
+
+    bookmark.favourited = false;
+    await plugin.syncBookmarks(true);
+    await plugin.syncBookmarks(true);
+
+    expect(lookups()).toHaveLength(1);
+    expect(readNote(app, plugin, bookmark.id)).not.toContain("hoarder_status");
+  });
+
+  it("keeps checking missing bookmarks after one fails", async () => {
+    const failing = server.addBookmark({ title: "Failing" });
+    const deleted = server.addBookmark({ title: "Deleted" });
+    const { app, plugin } = await createPlugin(server);
+    await plugin.syncBookmarks();
+    plugin.transport = async (request) =>
+      request.url.endsWith(`/bookmarks/${failing.id}`)
+        ? { ...(await server.transport(request)), status: 500 }
+        : server.transport(request);
+
+    server.bookmarks = [];
+    const result = await plugin.syncBookmarks(true);
+
+    expect(result.success).toBe(true);
+    expect(readNote(app, plugin, deleted.id)).toContain(
+      "hoarder_status: deleted",
+    );
+    expect(plugin.settings.syncLog[0].failures).toMatchObject([
+      { bookmarkId: failing.id, title: "Failing" },
+    ]);
+  });
+
+  it("forgets bookmarks whose notes were trashed", async () => {
+    const kept = server.addBookmark({ title: "Kept" });
+    const deleted = server.addBookmark({ title: "Deleted" });
+    const { plugin } = await createPlugin(server, {
+      missingBookmarkAction: "trash",
+    });
+    await plugin.syncBookmarks();
+
+    // An incremental sync that lists every bookmark, as once a day
+    server.bookmarks = [kept];
+    plugin.settings.lastFullListingTimestamp = 0;
+    await plugin.syncBookmarks();
+
+    const { settings } = plugin;
+    expect(Object.keys(settings.bookmarkFingerprints)).toEqual([kept.id]);
+    expect(Object.keys(settings.bookmarkFolders)).toEqual([kept.id]);
+    expect(Object.keys(settings.bookmarkTitles)).toEqual([kept.id]);
+    expect(Object.keys(settings.bookmarkProperties)).toEqual([kept.id]);
+    expect(plugin.bookmarkIndex.getFile(deleted.id)).toBeFalsy();
+  });
+
+  it("syncs additional profiles under their own bookmark keys", async () => {
+    const other = new FakeHoarderServer("other-key");
+    server.addBookmark({ title: "Default" });
+    other.addBookmark({ title: "Work" });
+    const work = {
+      ...createSyncProfile("Work", [""]),
+      apiKey: "other-key",
+      apiBaseUrl: "https://other.test",
+    };
+    const { plugin } = await createPlugin(server, { profiles: [work] });
+    plugin.transport = (request) =>
+      request.url.startsWith("https://other.test")
+        ? other.transport(request)
+        : server.transport(request);
+
+    const result = await plugin.syncBookmarks();
+
+    expect(result.success).toBe(true);
+    expect(plugin.bookmarkIndex.getFile("bookmark-1")?.path).toMatch(
+      /^Hoarder\//,
+    );
+    expect(plugin.bookmarkIndex.getFile("work:bookmark-1")?.path).toMatch(
+      /^Hoarder\/Work\//,
+    );
+  });
+
+  it("forgets the bookmarks of removed profiles", async () => {
+    const other = new FakeHoarderServer("other-key");
+    server.addBookmark({ title: "Default" });
+    other.addBookmark({ title: "Work" });
+    const work = {
+      ...createSyncProfile("Work", [""]),
+      apiKey: "other-key",
+      apiBaseUrl: "https://other.test",
+    };
+    const { plugin } = await createPlugin(server, { profiles: [work] });
+    plugin.transport = (request) =>
+      request.url.startsWith("https://other.test")
+        ? other.transport(request)
+        : server.transport(request);
+    plugin.startPeriodicSync = () => {};
+    await plugin.syncBookmarks();
+
+    await plugin.removeProfile(work.profileId);
+
+    expect(Object.keys(plugin.settings.bookmarkFolders)).toEqual([
+      "bookmark-1",
+    ]);
+    expect(Object.keys(plugin.settings.bookmarkProperties)).toEqual([
+      "bookmark-1",
+    ]);
+  });
+
+  it("creates bookmarks with the first profile that has an API key", async () => {
+    const other = new FakeHoarderServer("other-key");
+    const work = {
+      ...createSyncProfile("Work", [""]),
+      apiKey: "other-key",
+      apiBaseUrl: "https://other.test",
+    };
+    const { plugin } = await createPlugin(server, {
+      apiKey: "",
+      profiles: [work],
+    });
+    plugin.transport = other.transport;
+
+    const file = await plugin.addBookmark({
+      type: "link",
+      url: "https://example.com/new",
+    });
+
+    expect(other.bookmarks).toHaveLength(1);
+    expect(file.path).toMatch(/^Hoarder\/Work\//);
+    expect(plugin.bookmarkIndex.getFile("work:bookmark-1")?.path).toBe(
+      file.path,
+    );
+  });
+
+  it("reports a rejected API key as a failed sync", async () => {
+    server.addBookmark({ title: "Unreachable" });
+    const { plugin } = await createPlugin(server, { apiKey: "wrong-key" });
+
+    const result = await plugin.syncBookmarks();
+
+    expect(result.success).toBe(false);
+    expect(plugin.settings.syncLog[0].success).toBe(false);
+    expect(plugin.bookmarkIndex.getFile("bookmark-1")?.path).toBeFalsy();
+  });
+});
+
+describe("searchHoarder", () => {
+  let server: FakeHoarderServer;
+
+  beforeEach(() => {
+    server = new FakeHoarderServer(API_KEY);
+    server.addBookmark({ title: "Searchable" });
+    server.addBookmark({ title: "Other" });
+  });
+
+  it("searches the server", async () => {
+    const { plugin } = await createPlugin(server);
+
+    const { results, offline } = await plugin.searchHoarder("searchable");
+
+    expect(offline).toBe(false);
+    expect(results.map((result) => result.title)).toEqual(["Searchable"]);
+  });
+
+  it("searches the synced notes once the server has no search", async () => {
+    const { plugin } = await createPlugin(server, { maxRetries: 3 });
+    await plugin.syncBookmarks();
+    const searches = () =>
+      server.requests.filter((request) =>
+        request.url.includes("/bookmarks/search"),
+      );
+    plugin.transport = async (request) =>
+      request.url.includes("/bookmarks/search")
+        ? { ...(await server.transport(request)), status: 404 }
+        : server.transport(request);
+
+    const first = await plugin.searchHoarder("searchable");
+    const second = await plugin.searchHoarder("searchable");
+
+    expect(first.offline).toBe(true);
+    expect(first.results.map((result) => result.title)).toEqual([
+      "Searchable",
+    ]);
+    expect(second.offline).toBe(true);
+    // Not retried and not asked again
+    expect(searches()).toHaveLength(1);
+  });
+});
+
+describe("cancelSync", () => {
+  let server: FakeHoarderServer;
+
+  beforeEach(() => {
+    server = new FakeHoarderServer(API_KEY);
+  });
+
+  it("stops while fetching lists", async () => {
+    const bookmark = server.addBookmark({ title: "Listed" });
+    server.lists = ["Reading", "Work"].map((name) => ({
+      list: { id: name, name, icon: "", parentId: null },
+      bookmarkIds: [bookmark.id],
+    }));
+    const { app, plugin } = await createPlugin(server, {
+      createListNotes: true,
+    });
+    plugin.transport = async (request) => {
+      plugin.cancelSync();
+      return server.transport(request);
+    };
+
+    const result = await plugin.syncBookmarks();
+
+    expect(result.success).toBe(false);
+    expect(server.requests).toHaveLength(1);
+    expect(app.vault.getMarkdownFiles()).toHaveLength(0);
+    expect(plugin.settings.syncCheckpoint).toMatchObject({ cursor: null });
+  });
+
+  it("stops checking for missing bookmarks", async () => {
+    server.addBookmark({ title: "First" });
+    server.addBookmark({ title: "Second" });
+    const { plugin } = await createPlugin(server);
+    await plugin.syncBookmarks();
+    const { lastFullListingTimestamp } = plugin.settings;
+    const lookups = server.requests.length;
+    server.bookmarks = [];
+    plugin.transport = async (request) => {
+      if (/\/bookmarks\/bookmark-\d+$/.test(request.url)) {
+        plugin.cancelSync();
+      }
+      return server.transport(request);
+    };
+
+    const result = await plugin.syncBookmarks(true);
+
+    expect(result.success).toBe(false);
+    // The listing and one of the two lookups
+    expect(server.requests.length - lookups).toBe(2);
+    expect(plugin.settings.lastFullListingTimestamp).toBe(
+      lastFullListingTimestamp,
+    );
+  });
+});
@@ -1,69 +1,247 @@
-import { Plugin, Notice, Events, TFile } from "obsidian";
+import {
+  Editor,
+  Plugin,
+  Notice,
+  Events,
+  prepareFuzzySearch,
+  TFile,
+  TFolder,
+  getFrontMatterInfo,
+  normalizePath,
+  parseYaml,
+} from "obsidian";
 import {
   HoarderSettings,
   DEFAULT_SETTINGS,
   HoarderSettingTab,
+  SyncCheckpoint,
 } from "./settings";
-
-interface HoarderTag {
-  id: string;
-  name: string;
-  attachedBy: "ai" | "human";
+import { BookmarkIndex } from "./bookmark-index";
+import { getRuleFolder } from "./folder-rules";
+import { mergeThreeWay } from "./merge";
+import {
+  hasManagedRegions,
+  replaceManagedRegions,
+} from "./managed-regions";
+import { NoteConflictListModal, NoteConflictModal } from "./conflict-modal";
+import { QuickAddModal } from "./quick-add-modal";
+import { HOARDER_VIEW_TYPE, HoarderBookmarksView } from "./bookmarks-view";
+import {
+  HoarderSearchModal,
+  SearchResult,
+  SearchResults,
+} from "./search-modal";
+import { getLinkpathAtCursor, getUrlAtCursor } from "./editor-targets";
+import { FolderChooserModal, LinkImportModal } from "./import-modal";
+import { collectLinks, getUrlKey } from "./link-import";
+import { extractReadableContent, htmlToMarkdown } from "./readable-content";
+import { getAssetEmbed, getAssetExtension } from "./assets";
+import { AttachmentStore } from "./attachment-store";
+import { AttachmentCleanupModal } from "./cleanup-modal";
+import { SyncStatusBar } from "./status-bar";
+import { SYNC_LOG_VIEW_TYPE, SyncLogView } from "./sync-log-view";
+import {
+  SyncFailure,
+  SyncStats,
+  addSyncLogEntry,
+  createSyncStats,
+} from "./sync-log";
+import {
+  FileNameOptions,
+  formatFileName,
+  getFileNameSignature,
+  sanitizePathSegment,
+} from "./file-names";
+import { ConcurrencyLimiter } from "./concurrency";
+import { getTransport } from "./transports";
+import { SyncProfile, getBookmarkKey, parseBookmarkKey } from "./profiles";
+import {
+  HoarderApiError,
+  HoarderBookmark,
+  HoarderBookmarkPage,
+  HoarderBookmarkUpdate,
+  HoarderClient,
+  HoarderClientConfig,
+  HoarderList,
+  HoarderTransport,
+  isRetryableError,
+} from "./hoarder-api";
+import {
+  DEFAULT_NOTE_TEMPLATE,
+  parseTemplate,
+  renderTemplate,
+  TemplateNode,
+  validateTemplate,
+} from "./template";
+
+// The Notes section ends at the next heading, link or managed region
+const NOTES_SECTION_PATTERN =
+  /## Notes\n\n([\s\S]*?)(?=\n##|\n\[|\n%% hoarder-|$)/;
+
+// Replace the text of the Notes section, adding the section if needed
+function setNotesSection(content: string, notes: string): string {
+  if (!NOTES_SECTION_PATTERN.test(content)) {
+    return `${content.trimEnd()}\n\n## Notes\n\n${notes}\n`;
+  }
+  return content.replace(
+    NOTES_SECTION_PATTERN,
+    () => `## Notes\n\n${notes}\n`,
+  );
 }
 
-interface HoarderBookmarkContent {
-  type: "link" | "text" | "asset" | "unknown";
-  url?: string;
-  title?: string;
-  description?: string;
-  imageUrl?: string;
-  imageAssetId?: string;
-  screenshotAssetId?: string;
-  fullPageArchiveAssetId?: string;
-  videoAssetId?: string;
-  favicon?: string;
-  htmlContent?: string;
-  crawledAt?: string;
-  text?: string;
-  sourceUrl?: string;
-  assetType?: "image" | "pdf";
-  assetId?: string;
-  fileName?: string;
+// Bookmarks that can be created from Obsidian
+type NewBookmark =
+  | { type: "link"; url: string }
+  | { type: "text"; text: string }
+  | {
+      type: "asset";
+      assetType: "image" | "pdf";
+      assetId: string;
+      fileName: string;
+    };
+
+// Vault files that can be uploaded as assets
+const ASSET_CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+};
+
+// Pause between bookmarks created by a bulk import, to go easy on the server
+const IMPORT_REQUEST_INTERVAL_MS = 500;
+
+// Incremental syncs still list every bookmark this often, to find deleted
+// bookmarks and changes to older ones
+const FULL_LISTING_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// Cursors of an interrupted sync older than this may no longer be valid
+const SYNC_CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Searches are typed by someone waiting for the results, so they aren't
+// retried and give up sooner than other requests
+const SEARCH_TIMEOUT_MS = 5000;
+
+function isHttpUrl(value: string): boolean {
+  if (/\s/.test(value)) {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
 }
 
-interface HoarderBookmark {
-  id: string;
-  createdAt: string;
-  title: string | null;
-  archived: boolean;
-  favourited: boolean;
-  taggingStatus: "success" | "failure" | "pending" | null;
-  note: string | null;
-  summary: string | null;
-  tags: HoarderTag[];
-  content: HoarderBookmarkContent;
+// Progress of a running sync, sent with the "sync-progress" event
+export interface SyncProgress {
+  // Pages fetched so far, across all synced lists
+  page: number;
+  // Bookmarks handled and fetched so far
+  processed: number;
+  fetched: number;
 }
 
-interface HoarderResponse {
-  bookmarks: HoarderBookmark[];
-  nextCursor: string | null;
+interface SyncResult {
+  success: boolean;
+  cancelled: boolean;
+  message: string;
+  // Why the sync failed
+  error?: string;
 }
 
 export default class HoarderPlugin extends Plugin {
   settings: HoarderSettings;
-  syncIntervalId: number;
+  // One periodic sync per profile
+  private syncIntervalIds: number[] = [];
+  // Profiles whose periodic sync came while another sync was running
+  private queuedProfileIds: Set<string> = new Set();
   isSyncing: boolean = false;
-  skippedFiles: number = 0;
+  // Triggers "sync-state-change" (isSyncing) when a sync starts or ends and
+  // "sync-progress" (SyncProgress) while it runs
   events: Events = new Events();
+  syncProgress: SyncProgress | null = null;
+  lastSyncError: string | null = null;
+  private syncCancelRequested = false;
+  // Errors of the bookmark being synced, reported by helpers that don't throw
+  private bookmarkErrors: string[] | null = null;
+  bookmarkIndex: BookmarkIndex;
+  attachmentStore: AttachmentStore;
+  // Replace to run the plugin against a fake Hoarder server
+  transport: HoarderTransport = (request) =>
+    getTransport(this.settings.networkTransport)(request);
+  // API clients by profile id
+  private clients: Map<string, HoarderClient> = new Map();
+  // Servers whose search answered with a 404, searched in the synced notes
+  // instead until the plugin is reloaded
+  private serversWithoutSearch: Set<string> = new Set();
+  // Bookmarks a full sync found left out by the filters rather than gone,
+  // not asked about again until the plugin is reloaded
+  private filteredBookmarkIds: Set<string> = new Set();
+  private downloadLimiter = new ConcurrencyLimiter(
+    () => this.settings.maxConcurrentDownloads,
+  );
+  // Downloads in flight by asset id
+  private pendingDownloads: Map<string, Promise<string | null>> = new Map();
   private modificationTimeout: number | null = null;
   private lastSyncedNotes: string | null = null;
+  private bookmarkLists: Map<string, string[]> = new Map();
 
   async onload() {
     await this.loadSettings();
-
+    this.bookmarkIndex = new BookmarkIndex(this.app);
+    this.attachmentStore = new AttachmentStore(
+      this.app,
+      () => this.settings.attachmentsFolder,
+    );
     // Add settings tab
     this.addSettingTab(new HoarderSettingTab(this.app, this));
 
+    // Show sync progress and the last sync in the status bar
+    const statusBar = new SyncStatusBar(this, this.addStatusBarItem());
+    this.registerEvent(
+      this.events.on("sync-state-change", () => statusBar.update()),
+    );
+    this.registerEvent(
+      this.events.on("sync-progress", () => statusBar.update()),
+    );
+    // Keep the time since the last sync current
+    this.registerInterval(window.setInterval(() => statusBar.update(), 60000));
+
+    // Add view listing recent syncs and the bookmarks that failed
+    this.registerView(
+      SYNC_LOG_VIEW_TYPE,
+      (leaf) => new SyncLogView(leaf, this),
+    );
+    this.addCommand({
+      id: "show-hoarder-sync-log",
+      name: "Show Hoarder sync log",
+      callback: async () => {
+        const leaf =
+          this.app.workspace.getLeavesOfType(SYNC_LOG_VIEW_TYPE)[0] ??
+          this.app.workspace.getLeaf(true);
+        await leaf.setViewState({ type: SYNC_LOG_VIEW_TYPE, active: true });
+        this.app.workspace.revealLeaf(leaf);
+      },
+    });
+
+    // Add sidebar view for browsing bookmarks
+    this.registerView(
+      HOARDER_VIEW_TYPE,
+      (leaf) => new HoarderBookmarksView(leaf, this),
+    );
+    this.addRibbonIcon("bookmark", "Open Hoarder bookmarks", () =>
+      this.activateBookmarksView(),
+    );
+    this.addCommand({
+      id: "open-hoarder-bookmarks-view",
+      name: "Open Bookmarks View",
+      callback: () => this.activateBookmarksView(),
+    });
+
     // Add command to trigger sync
     this.addCommand({
       id: "trigger-hoarder-sync",
@@ -74,15 +252,189 @@ export default class HoarderPlugin extends Plugin {
       },
     });
 
+    // Add command to stop a running sync
+    this.addCommand({
+      id: "cancel-hoarder-sync",
+      name: "Cancel Sync",
+      checkCallback: (checking) => {
+        if (!this.isSyncing) return false;
+        if (!checking) {
+          this.cancelSync();
+          new Notice("Cancelling sync...");
+        }
+        return true;
+      },
+    });
+
+    // Add command to re-sync every bookmark, ignoring what was synced before
+    this.addCommand({
+      id: "trigger-hoarder-full-resync",
+      name: "Full Resync Bookmarks",
+      callback: async () => {
+        const result = await this.syncBookmarks(true);
+        new Notice(result.message);
+      },
+    });
+
+    // Add command to resolve notes changed in both Obsidian and Hoarder
+    this.addCommand({
+      id: "show-hoarder-note-conflicts",
+      name: "Show Note Conflicts",
+      callback: () => {
+        const conflicts = this.getNoteConflicts();
+        if (conflicts.length === 0) {
+          new Notice("No note conflicts");
+          return;
+        }
+        new NoteConflictListModal(this.app, conflicts, (file) =>
+          this.resolveNoteConflict(file),
+        ).open();
+      },
+    });
+
+    // Add commands to create bookmarks from the editor
+    this.addCommand({
+      id: "add-hoarder-bookmark",
+      name: "Add Bookmark",
+      callback: () => this.openQuickAddModal(),
+    });
+
+    this.addCommand({
+      id: "bookmark-link-under-cursor",
+      name: "Bookmark Link Under Cursor",
+      editorCheckCallback: (checking, editor, ctx) => {
+        if (!getUrlAtCursor(editor)) return false;
+        if (!checking) {
+          this.bookmarkUrlAtCursor(editor, ctx.file?.path ?? "");
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "bookmark-selected-text",
+      name: "Bookmark Selected Text",
+      editorCheckCallback: (checking, editor) => {
+        if (!editor.somethingSelected()) return false;
+        if (!checking) {
+          this.bookmarkSelection(editor);
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "bookmark-attachment-under-cursor",
+      name: "Bookmark Attachment Under Cursor",
+      editorCheckCallback: (checking, editor, ctx) => {
+        const sourcePath = ctx.file?.path ?? "";
+        if (!this.getAttachmentAtCursor(editor, sourcePath)) return false;
+        if (!checking) {
+          this.bookmarkAttachmentAtCursor(editor, sourcePath);
+        }
+        return true;
+      },
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("editor-menu", (menu, editor, ctx) => {
+        const sourcePath = ctx.file?.path ?? "";
+        if (editor.somethingSelected()) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Bookmark selection in Hoarder")
+              .setIcon("bookmark-plus")
+              .onClick(() => this.bookmarkSelection(editor)),
+          );
+        } else if (getUrlAtCursor(editor)) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Bookmark link in Hoarder")
+              .setIcon("bookmark-plus")
+              .onClick(() => this.bookmarkUrlAtCursor(editor, sourcePath)),
+          );
+        } else if (this.getAttachmentAtCursor(editor, sourcePath)) {
+          menu.addItem((item) =>
+            item
+              .setTitle("Bookmark attachment in Hoarder")
+              .setIcon("bookmark-plus")
+              .onClick(() =>
+                this.bookmarkAttachmentAtCursor(editor, sourcePath),
+              ),
+          );
+        }
+      }),
+    );
+
+    // Add command to remove downloaded assets no note uses anymore
+    this.addCommand({
+      id: "clean-up-hoarder-attachments",
+      name: "Clean up unused Hoarder attachments",
+      callback: () => this.cleanUpAttachments(),
+    });
+
+    // Add command to search Hoarder and link to the chosen bookmark
+    this.addCommand({
+      id: "search-hoarder",
+      name: "Search Hoarder",
+      editorCallback: (editor, ctx) => {
+        const sourcePath = ctx.file?.path ?? "";
+        new HoarderSearchModal(
+          this.app,
+          (query) => this.searchHoarder(query),
+          (result) => this.insertBookmarkLink(editor, sourcePath, result),
+        ).open();
+      },
+    });
+
+    // Add commands to import the links of existing notes
+    this.addCommand({
+      id: "import-links-from-current-note",
+      name: "Import Links From Current Note",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== "md") return false;
+        if (!checking) {
+          this.openLinkImport([file]);
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "import-links-from-folder",
+      name: "Import Links From Folder",
+      callback: () => {
+        new FolderChooserModal(this.app, (folder) =>
+          this.openLinkImport(this.getMarkdownFilesInFolder(folder)),
+        ).open();
+      },
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) => {
+        if (!(file instanceof TFolder)) return;
+        menu.addItem((item) =>
+          item
+            .setTitle("Import links into Hoarder")
+            .setIcon("bookmark-plus")
+            .onClick(() =>
+              this.openLinkImport(this.getMarkdownFilesInFolder(file)),
+            ),
+        );
+      }),
+    );
+
     // Register file modification event
     this.registerEvent(
       this.app.vault.on("modify", async (file) => {
-        // Check if it's a markdown file in our sync folder
+        // Check if it's a note for one of our bookmarks
         if (
-          this.settings.syncNotesToHoarder &&
-          file.path.startsWith(this.settings.syncFolder) &&
-          file.path.endsWith(".md") &&
-          file instanceof TFile
+          (this.settings.syncNotesToHoarder ||
+            this.settings.syncTagsToHoarder ||
+            this.settings.syncPropertiesToHoarder) &&
+          file instanceof TFile &&
+          this.bookmarkIndex.getBookmarkId(file.path)
         ) {
           // Clear any existing timeout
           if (this.modificationTimeout) {
@@ -97,23 +449,166 @@ export default class HoarderPlugin extends Plugin {
       }),
     );
 
-    // Start periodic sync
-    this.startPeriodicSync();
+    // Keep the bookmark index in sync with the vault
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => {
+        this.bookmarkIndex.updateFromCache(file);
+      }),
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        this.bookmarkIndex.rename(oldPath, file.path);
+      }),
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.bookmarkIndex.removePath(file.path);
+      }),
+    );
+
+    // Wait for the metadata cache before indexing and syncing
+    this.app.workspace.onLayoutReady(() => {
+      this.bookmarkIndex.rebuild();
+
+      // Start periodic sync
+      this.startPeriodicSync();
+    });
   }
 
   onunload() {
-    // Clear the sync interval when plugin is disabled
-    if (this.syncIntervalId) {
-      window.clearInterval(this.syncIntervalId);
-    }
+    // Clear the sync intervals when plugin is disabled
+    this.syncIntervalIds.forEach((id) => window.clearInterval(id));
     // Clear any pending modification timeout
     if (this.modificationTimeout) {
       window.clearTimeout(this.modificationTimeout);
     }
   }
 
+  // Reveal the bookmarks view, opening it in the right sidebar if needed
+  async activateBookmarksView() {
+    let leaf = this.app.workspace.getLeavesOfType(HOARDER_VIEW_TYPE)[0];
+    if (!leaf) {
+      const rightLeaf = this.app.workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      leaf = rightLeaf;
+      await leaf.setViewState({ type: HOARDER_VIEW_TYPE, active: true });
+    }
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  // The default profile followed by the additional ones
+  getProfiles(): SyncProfile[] {
+    return [this.settings, ...this.settings.profiles];
+  }
+
+  getProfile(profileId: string): SyncProfile | null {
+    return (
+      this.getProfiles().find((profile) => profile.profileId === profileId) ??
+      null
+    );
+  }
+
+  // Stop syncing a profile. Its notes stay in the vault, but edits to them
+  // are no longer pushed to Hoarder.
+  async removeProfile(profileId: string) {
+    this.settings.profiles = this.settings.profiles.filter(
+      (profile) => profile.profileId !== profileId,
+    );
+    this.settings.removedProfileIds.push(profileId);
+    this.clients.delete(profileId);
+    this.forgetBookmarks(
+      (key) => parseBookmarkKey(key).profileId === profileId,
+    );
+    await this.saveSettings();
+    this.startPeriodicSync();
+  }
+
+  // The profile a bookmark was synced with and its id on that server
+  resolveBookmarkKey(key: string): {
+    profile: SyncProfile;
+    bookmarkId: string;
+  } {
+    const { profileId, bookmarkId } = parseBookmarkKey(key);
+    const profile = this.getProfile(profileId);
+    if (!profile) {
+      throw new Error(`Unknown Hoarder profile "${profileId}"`);
+    }
+    return { profile, bookmarkId };
+  }
+
+  // Whether the profile a bookmark key belongs to still exists
+  hasBookmarkProfile(key: string): boolean {
+    return this.getProfile(parseBookmarkKey(key).profileId) !== null;
+  }
+
+  // The profile a bookmark key belongs to, or the default profile for keys of
+  // profiles that were removed
+  getBookmarkProfile(key: string): SyncProfile {
+    return this.getProfile(parseBookmarkKey(key).profileId) ?? this.settings;
+  }
+
+  getClientConfig(profile: SyncProfile = this.settings): HoarderClientConfig {
+    return {
+      baseUrl: profile.apiBaseUrl,
+      apiPath: profile.apiPath,
+      apiKey: profile.apiKey,
+      timeoutMs: this.settings.requestTimeoutSeconds * 1000,
+      maxRetries: this.settings.maxRetries,
+    };
+  }
+
+  getClient(profile: SyncProfile = this.settings): HoarderClient {
+    const { profileId } = profile;
+    let client = this.clients.get(profileId);
+    if (!client) {
+      // Look the profile up on every request, in case it was replaced
+      client = new HoarderClient(
+        () => this.getClientConfig(this.getProfile(profileId) ?? profile),
+        (request) => this.transport(request),
+      );
+      this.clients.set(profileId, client);
+    }
+    return client;
+  }
+
+  // Use plugin-wide bookmark keys as the ids of bookmarks fetched for a
+  // profile
+  private withBookmarkKeys(
+    profile: SyncProfile,
+    page: HoarderBookmarkPage,
+  ): HoarderBookmarkPage {
+    for (const bookmark of page.bookmarks || []) {
+      bookmark.id = getBookmarkKey(profile.profileId, bookmark.id);
+    }
+    return page;
+  }
+
+  // When the most recent profile sync finished
+  getLastSyncTimestamp(): number {
+    return Math.max(
+      ...this.getProfiles().map((profile) => profile.lastSyncTimestamp),
+    );
+  }
+
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.settings = Object.assign(
+      {},
+      structuredClone(DEFAULT_SETTINGS),
+      await this.loadData(),
+    );
+
+    // Notes synced before file name patterns and folder rules existed are
+    // where the current settings put them, so they don't need to be moved
+    if (!this.settings.appliedFileNameSignature) {
+      this.settings.appliedFileNameSignature = getFileNameSignature(
+        this.getFileNameOptions(),
+      );
+    }
+    if (!this.settings.appliedFolderRulesSignature) {
+      this.settings.appliedFolderRulesSignature = this.getFolderRulesSignature(
+        this.settings,
+      );
+    }
   }
 
   async saveSettings() {
@@ -121,58 +616,157 @@ export default class HoarderPlugin extends Plugin {
   }
 
   startPeriodicSync() {
-    // Clear existing interval if any
-    if (this.syncIntervalId) {
-      window.clearInterval(this.syncIntervalId);
-    }
-
-    // Convert minutes to milliseconds
-    const interval = this.settings.syncIntervalMinutes * 60 * 1000;
+    // Clear existing intervals if any
+    this.syncIntervalIds.forEach((id) => window.clearInterval(id));
 
     // Perform initial sync
     this.syncBookmarks();
 
-    // Set up periodic sync
-    this.syncIntervalId = window.setInterval(() => {
-      this.syncBookmarks();
-    }, interval);
+    // Set up periodic sync, at each profile's own interval
+    this.syncIntervalIds = this.getProfiles().map((profile) =>
+      window.setInterval(
+        () => this.syncBookmarks(false, profile),
+        profile.syncIntervalMinutes * 60 * 1000,
+      ),
+    );
   }
 
   async fetchBookmarks(
+    profile: SyncProfile,
     cursor: string | null = null,
     limit: number = 100,
-  ): Promise<HoarderResponse> {
-    const queryParams = new URLSearchParams({
-      limit: limit.toString(),
+    applySyncFilters: boolean = true,
+  ): Promise<HoarderBookmarkPage> {
+    const page = await this.getClient(profile).getBookmarks({
+      limit,
+      cursor,
+      archived:
+        applySyncFilters && profile.excludeArchived ? false : undefined,
+      favourited: applySyncFilters && profile.onlyFavorites ? true : undefined,
     });
-    
-    if (cursor) {
-      queryParams.append('cursor', cursor);
-    }
+    return this.withBookmarkKeys(profile, page);
+  }
 
-    if (this.settings.excludeArchived) {
-      queryParams.append("archived", "false");
-    }
+  // Full-text search, available on Hoarder servers with the search endpoint
+  async searchBookmarks(
+    profile: SyncProfile,
+    query: string,
+    cursor: string | null = null,
+    limit: number = 20,
+  ): Promise<HoarderBookmarkPage> {
+    const client = new HoarderClient(
+      () => {
+        const config = this.getClientConfig(profile);
+        return {
+          ...config,
+          timeoutMs:
+            config.timeoutMs > 0
+              ? Math.min(config.timeoutMs, SEARCH_TIMEOUT_MS)
+              : SEARCH_TIMEOUT_MS,
+          maxRetries: 0,
+        };
+      },
+      (request) => this.transport(request),
+    );
+    const page = await client.searchBookmarks(query, { cursor, limit });
+    return this.withBookmarkKeys(profile, page);
+  }
+
+  async fetchLists(profile: SyncProfile): Promise<HoarderList[]> {
+    return this.getClient(profile).getLists();
+  }
+
+  async fetchListBookmarks(
+    profile: SyncProfile,
+    listId: string,
+    cursor: string | null = null,
+    limit: number = 100,
+  ): Promise<HoarderBookmarkPage> {
+    const page = await this.getClient(profile).getListBookmarks(listId, {
+      cursor,
+      limit,
+    });
+    return this.withBookmarkKeys(profile, page);
+  }
 
-    if (this.settings.onlyFavorites) {
-      queryParams.append("favourited", "true");
+  // Fetch every list of a profile together with the ids of its bookmarks
+  // Stops after the request during which isCancelled turns true, returning
+  // the lists fetched so far
+  async fetchListMembers(
+    profile: SyncProfile,
+    isCancelled: () => boolean = () => false,
+  ): Promise<{ list: HoarderList; bookmarkIds: string[] }[]> {
+    const listMembers = [];
+
+    for (const list of await this.fetchLists(profile)) {
+      if (isCancelled()) break;
+      const bookmarkIds: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const result = await this.fetchListBookmarks(profile, list.id, cursor);
+        for (const bookmark of result.bookmarks || []) {
+          bookmarkIds.push(bookmark.id);
+        }
+        cursor = result.nextCursor;
+      } while (cursor && !isCancelled());
+      listMembers.push({ list, bookmarkIds });
     }
 
-    const response = await fetch(
-      `${this.settings.apiBaseUrl}${this.settings.apiPath}/bookmarks?${queryParams.toString()}`,
-      {
-        headers: {
-          Authorization: `Bearer ${this.settings.apiKey}`,
-          "Content-Type": "application/json",
-        },
-      },
-    );
+    return listMembers;
+  }
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+  // Write an index note per list linking to the notes of its bookmarks
+  private async writeListNotes(
+    profile: SyncProfile,
+    listMembers: { list: HoarderList; bookmarkIds: string[] }[],
+  ) {
+    // Lists of additional profiles get a folder each, so lists with the same
+    // name don't collide
+    const folderPath = profile.profileId
+      ? `${this.settings.listNotesFolder}/${sanitizePathSegment(profile.profileName, true) || profile.profileId}`
+      : this.settings.listNotesFolder;
+    await this.ensureFolder(folderPath);
+
+    for (const { list, bookmarkIds } of listMembers) {
+      const path = normalizePath(
+        `${folderPath}/${sanitizePathSegment(list.name, true) || list.id}.md`,
+      );
+
+      let content = `---\nhoarder_list_id: "${list.id}"\n---\n\n# ${
+        list.icon ? `${list.icon} ` : ""
+      }${list.name}\n\n`;
+      for (const bookmarkId of bookmarkIds) {
+        const file = this.bookmarkIndex.getFile(bookmarkId);
+        if (file) {
+          content += `- ${this.app.fileManager.generateMarkdownLink(file, path)}\n`;
+        }
+      }
+
+      const existingFile = this.app.vault.getAbstractFileByPath(path);
+      if (existingFile instanceof TFile) {
+        // Avoid touching list notes that didn't change
+        if ((await this.app.vault.read(existingFile)) !== content) {
+          await this.app.vault.modify(existingFile, content);
+        }
+      } else {
+        await this.app.vault.create(path, content);
+      }
     }
+  }
 
-    return response.json() as Promise<HoarderResponse>;
+  // Fetch a single bookmark, returning null if it no longer exists
+  async fetchBookmark(key: string): Promise<HoarderBookmark | null> {
+    const { profile, bookmarkId } = this.resolveBookmarkKey(key);
+    try {
+      const bookmark = await this.getClient(profile).getBookmark(bookmarkId);
+      bookmark.id = key;
+      return bookmark;
+    } catch (error) {
+      if (error instanceof HoarderApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
   }
 
   getBookmarkTitle(bookmark: HoarderBookmark): string {
@@ -247,12 +841,16 @@ export default class HoarderPlugin extends Plugin {
       const content = await this.app.vault.adapter.read(filePath);
 
       // Extract notes from the content
-      const notesMatch = content.match(/## Notes\n\n([\s\S]*?)(?=\n##|\n\[|$)/);
+      const notesMatch = content.match(NOTES_SECTION_PATTERN);
       const currentNotes = notesMatch ? notesMatch[1].trim() : null;
 
       // Use MetadataCache to get frontmatter
+      // Block scalars keep a trailing newline, so trim like the notes
       const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter;
-      const originalNotes = metadata?.original_note ?? null;
+      const originalNotes =
+        metadata?.original_note !== undefined && metadata?.original_note !== null
+          ? String(metadata.original_note).trim()
+          : null;
 
       return { currentNotes, originalNotes };
     } catch (error) {
@@ -261,270 +859,1898 @@ export default class HoarderPlugin extends Plugin {
     }
   }
 
-  async updateBookmarkInHoarder(
-    bookmarkId: string,
-    note: string,
-  ): Promise<boolean> {
-    try {
-      const response = await fetch(
-        `${this.settings.apiBaseUrl}${this.settings.apiPath}/bookmarks/${bookmarkId}`,
-        {
-          method: "PATCH",
-          headers: {
-            Authorization: `Bearer ${this.settings.apiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            note: note,
-          }),
-        },
+  // Replace the Notes section of a note and record it as synced
+  async writeNotesToFile(file: TFile, notes: string) {
+    await this.app.vault.process(file, (content) =>
+      setNotesSection(content, notes),
+    );
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      frontmatter["original_note"] = notes;
+    });
+  }
+
+  /**
+   * Update a note with freshly generated content, replacing only what the
+   * plugin owns: managed regions in the body and plugin frontmatter
+   * properties. Notes from before managed regions are rewritten once, apart
+   * from the Notes section.
+   */
+  async updateExistingNote(
+    file: TFile,
+    generated: string,
+    bookmark: HoarderBookmark,
+  ) {
+    const generatedFrontmatter = this.getGeneratedProperties(generated);
+    const generatedBody = generated.slice(
+      getFrontMatterInfo(generated).contentStart,
+    );
+
+    const { currentNotes, originalNotes } = await this.extractNotesFromFile(
+      file.path,
+    );
+    // Notes written before managed sections existed have no record of their
+    // properties. Those were always rewritten in full, so do that once more
+    // to add the markers.
+    const isLegacyNote = !(bookmark.id in this.settings.bookmarkProperties);
+
+    await this.app.vault.process(file, (content) => {
+      const info = getFrontMatterInfo(content);
+      const frontmatter = content.slice(0, info.contentStart);
+      const body = content.slice(info.contentStart);
+      // Otherwise, without markers there's no telling what the user added
+      if (!hasManagedRegions(body)) {
+        return isLegacyNote ? `${frontmatter}${generatedBody}` : content;
+      }
+      return `${frontmatter}${replaceManagedRegions(body, generatedBody)}`;
+    });
+
+    // Only remove properties the plugin wrote itself, a property of the
+    // same name the user added is theirs
+    const previousKeys = this.settings.bookmarkProperties[bookmark.id] ?? [];
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      for (const key of previousKeys) {
+        if (!(key in generatedFrontmatter)) {
+          delete frontmatter[key];
+        }
+      }
+      Object.assign(frontmatter, generatedFrontmatter);
+    });
+    this.settings.bookmarkProperties[bookmark.id] =
+      Object.keys(generatedFrontmatter);
+
+    // The Notes section belongs to the user, only bring in Hoarder's changes
+    const notes = bookmark.note || "";
+    if (currentNotes !== null && currentNotes !== notes) {
+      if (notes !== (originalNotes ?? "")) {
+        await this.writeNotesToFile(file, notes);
+      } else if (isLegacyNote) {
+        // Put back the notes the rewrite replaced
+        await this.app.vault.process(file, (content) =>
+          setNotesSection(content, currentNotes),
+        );
+      }
+    }
+  }
+
+  // The frontmatter properties of a generated note
+  private getGeneratedProperties(generated: string): Record<string, unknown> {
+    const info = getFrontMatterInfo(generated);
+    return info.exists ? (parseYaml(info.frontmatter) ?? {}) : {};
+  }
+
+  // Notes where local and Hoarder changes to the notes couldn't be merged
+  getNoteConflicts(): TFile[] {
+    return this.bookmarkIndex
+      .entries()
+      .map(([bookmarkId]) => this.bookmarkIndex.getFile(bookmarkId))
+      .filter(
+        (file): file is TFile =>
+          file !== null &&
+          !!this.app.metadataCache.getFileCache(file)?.frontmatter
+            ?.hoarder_conflict,
       );
+  }
+
+  async resolveNoteConflict(file: TFile) {
+    const bookmarkId = this.bookmarkIndex.getBookmarkId(file.path);
+    if (!bookmarkId) return;
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    try {
+      const { currentNotes, originalNotes } = await this.extractNotesFromFile(
+        file.path,
+      );
+      const bookmark = await this.fetchBookmark(bookmarkId);
+      if (!bookmark) {
+        new Notice("Bookmark no longer exists in Hoarder");
+        return;
       }
 
+      const local = currentNotes || "";
+      const remote = bookmark.note || "";
+      const { merged } = mergeThreeWay(originalNotes || "", local, remote);
+
+      new NoteConflictModal(
+        this.app,
+        file,
+        { local, remote, merged },
+        async (notes) => {
+          const updated = await this.updateBookmarkInHoarder(bookmarkId, {
+            note: notes,
+          });
+          if (!updated) {
+            new Notice("Failed to sync notes to Hoarder");
+            return;
+          }
+
+          this.lastSyncedNotes = notes;
+          await this.writeNotesToFile(file, notes);
+          await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            delete frontmatter["hoarder_conflict"];
+          });
+          new Notice("Note conflict resolved");
+        },
+      ).open();
+    } catch (error) {
+      console.error("Error resolving note conflict:", error);
+      new Notice(`Failed to resolve note conflict: ${error.message}`);
+    }
+  }
+
+  async updateBookmarkInHoarder(
+    key: string,
+    update: HoarderBookmarkUpdate,
+  ): Promise<boolean> {
+    try {
+      const { profile, bookmarkId } = this.resolveBookmarkKey(key);
+      await this.getClient(profile).updateBookmark(bookmarkId, update);
       return true;
     } catch (error) {
       console.error("Error updating bookmark in Hoarder:", error);
+      this.recordBookmarkError(
+        `Updating the bookmark in Hoarder failed: ${error.message}`,
+      );
       return false;
     }
   }
 
-  private setSyncing(value: boolean) {
-    this.isSyncing = value;
-    this.events.trigger("sync-state-change", value);
-  }
-
-  async syncBookmarks(): Promise<{ success: boolean; message: string }> {
-    if (this.isSyncing) {
-      return { success: false, message: "Sync already in progress" };
+  // Change properties of a bookmark from outside its note, updating the note
+  // and its snapshots so the change isn't mistaken for a local edit
+  async setBookmarkProperties(
+    bookmarkId: string,
+    update: HoarderBookmarkUpdate,
+  ): Promise<boolean> {
+    if (!(await this.updateBookmarkInHoarder(bookmarkId, update))) {
+      return false;
     }
 
-    if (!this.settings.apiKey) {
-      return { success: false, message: "Hoarder API key not configured" };
+    const file = this.bookmarkIndex.getFile(bookmarkId);
+    if (file) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        for (const [key, value] of Object.entries(update)) {
+          frontmatter[key] = value;
+          frontmatter[`original_${key}`] = value;
+        }
+      });
     }
+    return true;
+  }
 
-    this.setSyncing(true);
-    let totalBookmarks = 0;
-    this.skippedFiles = 0;
-    let updatedInHoarder = 0;
-    let excludedByTags = 0;
+  // The bookmark's page in the Hoarder web app
+  getBookmarkWebUrl(key: string): string {
+    const { profile, bookmarkId } = this.resolveBookmarkKey(key);
+    return `${profile.apiBaseUrl}/dashboard/preview/${bookmarkId}`;
+  }
 
+  async updateBookmarkTagsInHoarder(
+    key: string,
+    tagsToAttach: string[],
+    tagsToDetach: string[],
+  ): Promise<boolean> {
     try {
-      // Create sync folder if it doesn't exist
-      const folderPath = this.settings.syncFolder;
-      if (!(await this.app.vault.adapter.exists(folderPath))) {
-        await this.app.vault.createFolder(folderPath);
+      const { profile, bookmarkId } = this.resolveBookmarkKey(key);
+      const client = this.getClient(profile);
+      if (tagsToAttach.length > 0) {
+        await client.attachTags(bookmarkId, tagsToAttach);
       }
+      if (tagsToDetach.length > 0) {
+        await client.detachTags(bookmarkId, tagsToDetach);
+      }
+      return true;
+    } catch (error) {
+      console.error("Error updating bookmark tags in Hoarder:", error);
+      this.recordBookmarkError(
+        `Updating tags in Hoarder failed: ${error.message}`,
+      );
+      return false;
+    }
+  }
 
-      let cursor: string | null = null;
-      let hasMore = true;
+  // New bookmarks are created with the first profile that has an API key,
+  // which is the default profile unless only added profiles are set up
+  getCreationProfile(): SyncProfile {
+    return (
+      this.getProfiles().find((profile) => profile.apiKey) ?? this.settings
+    );
+  }
 
-      while (hasMore) {
-        const result = await this.fetchBookmarks(cursor);
-        const bookmarks = result.bookmarks || [];
-        cursor = result.nextCursor;
-        hasMore = cursor !== null;
-
-        // Process each bookmark
-        for (const bookmark of bookmarks) {
-          // Skip if bookmark has any excluded tags
-          if (!bookmark.favourited && this.settings.excludedTags.length > 0) {
-            const bookmarkTags = bookmark.tags.map((tag) =>
-              tag.name.toLowerCase(),
-            );
-            const hasExcludedTag = this.settings.excludedTags.some(
-              (excludedTag) => bookmarkTags.includes(excludedTag.toLowerCase()),
+  async createBookmarkInHoarder(
+    newBookmark: NewBookmark,
+    note: string = "",
+  ): Promise<HoarderBookmark> {
+    const profile = this.getCreationProfile();
+    const bookmark = await this.getClient(profile).createBookmark(
+      note ? { ...newBookmark, note } : newBookmark,
+    );
+    bookmark.id = getBookmarkKey(profile.profileId, bookmark.id);
+    return bookmark;
+  }
+
+  // Upload a vault file so it can be bookmarked as an asset. Assets live
+  // outside the versioned API, like the asset downloads. They go to the
+  // profile new bookmarks are created with.
+  async uploadAssetToHoarder(file: TFile): Promise<string> {
+    const data = await this.app.vault.readBinary(file);
+    const asset = await this.getClient(this.getCreationProfile()).uploadAsset(
+      data,
+      file.name,
+      ASSET_CONTENT_TYPES[file.extension],
+    );
+    return asset.assetId;
+  }
+
+  // Create a bookmark in Hoarder and write its note right away instead of
+  // waiting for the next sync
+  async addBookmark(
+    newBookmark: NewBookmark,
+    tags: string[] = [],
+    note: string = "",
+  ): Promise<TFile> {
+    const bookmark = await this.createBookmarkInHoarder(newBookmark, note);
+
+    const tagsToAttach = tags.filter(
+      (name) => !bookmark.tags.some((tag) => tag.name === name),
+    );
+    if (
+      tagsToAttach.length > 0 &&
+      (await this.updateBookmarkTagsInHoarder(bookmark.id, tagsToAttach, []))
+    ) {
+      bookmark.tags = [
+        ...bookmark.tags,
+        ...tagsToAttach.map((name) => ({
+          id: "",
+          name,
+          attachedBy: "human" as const,
+        })),
+      ];
+    }
+
+    // Hoarder returns the existing bookmark for URLs it already has
+    const existingFile = this.bookmarkIndex.getFile(bookmark.id);
+    if (existingFile) {
+      return existingFile;
+    }
+
+    const file = await this.createBookmarkNote(bookmark);
+    await this.saveSettings();
+    return file;
+  }
+
+  // Bookmark the URL under the cursor, optionally replacing it with a link
+  // to the new note
+  private async bookmarkUrlAtCursor(editor: Editor, sourcePath: string) {
+    const target = getUrlAtCursor(editor);
+    if (!target) {
+      new Notice("No link under the cursor");
+      return;
+    }
+    const original = editor.getRange(target.from, target.to);
+
+    try {
+      const file = await this.addBookmark({ type: "link", url: target.value });
+      // Leave the note alone if the link was edited in the meantime
+      if (
+        this.settings.replaceLinksWithNotes &&
+        editor.getRange(target.from, target.to) === original
+      ) {
+        editor.replaceRange(
+          this.app.fileManager.generateMarkdownLink(file, sourcePath),
+          target.from,
+          target.to,
+        );
+      }
+      new Notice(`Bookmarked "${file.basename}" in Hoarder`);
+    } catch (error) {
+      console.error("Error creating bookmark in Hoarder:", error);
+      new Notice(`Failed to create bookmark: ${error.message}`);
+    }
+  }
+
+  private async bookmarkSelection(editor: Editor) {
+    const text = editor.getSelection().trim();
+    if (!text) {
+      new Notice("No text selected");
+      return;
+    }
+
+    try {
+      const file = await this.addBookmark({ type: "text", text });
+      new Notice(`Bookmarked "${file.basename}" in Hoarder`);
+    } catch (error) {
+      console.error("Error creating bookmark in Hoarder:", error);
+      new Notice(`Failed to create bookmark: ${error.message}`);
+    }
+  }
+
+  // Find the image or PDF linked or embedded under the cursor
+  private getAttachmentAtCursor(
+    editor: Editor,
+    sourcePath: string,
+  ): TFile | null {
+    const target = getLinkpathAtCursor(editor);
+    if (!target) {
+      return null;
+    }
+    const file = this.app.metadataCache.getFirstLinkpathDest(
+      target.value,
+      sourcePath,
+    );
+    return file && file.extension in ASSET_CONTENT_TYPES ? file : null;
+  }
+
+  private async bookmarkAttachmentAtCursor(editor: Editor, sourcePath: string) {
+    const file = this.getAttachmentAtCursor(editor, sourcePath);
+    if (!file) {
+      new Notice("No image or PDF under the cursor");
+      return;
+    }
+
+    try {
+      const assetId = await this.uploadAssetToHoarder(file);
+      const note = await this.addBookmark({
+        type: "asset",
+        assetType: file.extension === "pdf" ? "pdf" : "image",
+        assetId,
+        fileName: file.name,
+      });
+      new Notice(`Bookmarked "${note.basename}" in Hoarder`);
+    } catch (error) {
+      console.error("Error creating bookmark in Hoarder:", error);
+      new Notice(`Failed to create bookmark: ${error.message}`);
+    }
+  }
+
+  // Open the quick-add modal, prefilled from the active editor
+  private openQuickAddModal() {
+    const editor = this.app.workspace.activeEditor?.editor;
+    const initialValue = editor
+      ? editor.getSelection().trim() || getUrlAtCursor(editor)?.value || ""
+      : "";
+
+    new QuickAddModal(this.app, initialValue, async ({ value, tags, note }) => {
+      const newBookmark: NewBookmark = isHttpUrl(value)
+        ? { type: "link", url: value }
+        : { type: "text", text: value };
+      try {
+        const file = await this.addBookmark(newBookmark, tags, note);
+        new Notice(`Bookmarked "${file.basename}" in Hoarder`);
+      } catch (error) {
+        console.error("Error creating bookmark in Hoarder:", error);
+        new Notice(`Failed to create bookmark: ${error.message}`);
+      }
+    }).open();
+  }
+
+  // Search every profile, falling back to the synced notes of profiles
+  // whose server can't be searched
+  async searchHoarder(query: string): Promise<SearchResults> {
+    const profiles = this.getProfiles().filter((profile) => profile.apiKey);
+    if (profiles.length === 0) {
+      return { results: this.searchSyncedNotes(query), offline: true };
+    }
+
+    // Search the profiles side by side, so one slow server doesn't hold up
+    // the others
+    const offlineProfileIds: string[] = [];
+    const profileResults = await Promise.all(
+      profiles.map(async (profile): Promise<SearchResult[]> => {
+        const server = `${profile.apiBaseUrl}${profile.apiPath}`;
+        if (this.serversWithoutSearch.has(server)) {
+          offlineProfileIds.push(profile.profileId);
+          return [];
+        }
+        try {
+          const result = await this.searchBookmarks(profile, query);
+          return (result.bookmarks || []).map((bookmark) => ({
+            id: bookmark.id,
+            title: this.getBookmarkTitle(bookmark),
+            url: bookmark.content.url ?? bookmark.content.sourceUrl ?? null,
+            file: this.bookmarkIndex.getFile(bookmark.id),
+            bookmark,
+          }));
+        } catch (error) {
+          console.error(
+            `Error searching Hoarder (${profile.profileName}):`,
+            error,
+          );
+          // Servers without full-text search answer with a 404, which won't
+          // change by the next keystroke
+          if (error instanceof HoarderApiError && error.status === 404) {
+            this.serversWithoutSearch.add(server);
+          }
+          offlineProfileIds.push(profile.profileId);
+          return [];
+        }
+      }),
+    );
+    const results = profileResults.flat();
+
+    if (offlineProfileIds.length === 0) {
+      return { results, offline: false };
+    }
+    return {
+      results: [
+        ...results,
+        ...this.searchSyncedNotes(query, offlineProfileIds),
+      ],
+      offline: true,
+    };
+  }
+
+  // Search the notes of the given profiles, or of every profile
+  private searchSyncedNotes(
+    query: string,
+    profileIds: string[] | null = null,
+  ): SearchResult[] {
+    const fuzzySearch = prepareFuzzySearch(query);
+    const matches: { result: SearchResult; score: number }[] = [];
+
+    for (const [id] of this.bookmarkIndex.entries()) {
+      if (profileIds && !profileIds.includes(parseBookmarkKey(id).profileId)) {
+        continue;
+      }
+      const file = this.bookmarkIndex.getFile(id);
+      if (!file) continue;
+      const frontmatter =
+        this.app.metadataCache.getFileCache(file)?.frontmatter;
+      const title = frontmatter?.title
+        ? String(frontmatter.title)
+        : file.basename;
+      const url = frontmatter?.url ? String(frontmatter.url) : null;
+
+      const match = fuzzySearch(`${title} ${url ?? ""}`);
+      if (match) {
+        matches.push({
+          result: { id, title, url, file, bookmark: null },
+          score: match.score,
+        });
+      }
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 20)
+      .map(({ result }) => result);
+  }
+
+  // Insert a link to a bookmark's note, writing the note first if the
+  // bookmark isn't synced (e.g. because of the sync filters)
+  private async insertBookmarkLink(
+    editor: Editor,
+    sourcePath: string,
+    result: SearchResult,
+  ) {
+    let file = result.file ?? this.bookmarkIndex.getFile(result.id);
+    if (!file) {
+      if (!result.bookmark) return;
+      try {
+        file = await this.createBookmarkNote(result.bookmark);
+        await this.saveSettings();
+      } catch (error) {
+        console.error("Error creating bookmark note:", error);
+        new Notice(`Failed to create note: ${error.message}`);
+        return;
+      }
+    }
+
+    editor.replaceSelection(
+      this.app.fileManager.generateMarkdownLink(file, sourcePath),
+    );
+  }
+
+  private getMarkdownFilesInFolder(folder: TFolder): TFile[] {
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter(
+        (file) => folder.isRoot() || file.path.startsWith(`${folder.path}/`),
+      );
+  }
+
+  // Scan notes for links that aren't synced yet and let the user pick which
+  // ones to import
+  private async openLinkImport(files: TFile[]) {
+    // Bookmark notes contain their own URL, so they aren't scanned, and the
+    // url property of each marks the link as already in Hoarder
+    const knownUrlKeys = new Set<string>();
+    for (const [, path] of this.bookmarkIndex.entries()) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      const url =
+        file instanceof TFile
+          ? this.app.metadataCache.getFileCache(file)?.frontmatter?.url
+          : null;
+      if (typeof url === "string" && url) {
+        knownUrlKeys.add(getUrlKey(url));
+      }
+    }
+
+    const notes = [];
+    for (const file of files) {
+      if (this.bookmarkIndex.getBookmarkId(file.path)) continue;
+      notes.push({
+        path: file.path,
+        content: await this.app.vault.cachedRead(file),
+      });
+    }
+
+    const links = collectLinks(notes, knownUrlKeys);
+    if (links.length === 0) {
+      new Notice("No links to import");
+      return;
+    }
+    new LinkImportModal(this.app, links, (urls) =>
+      this.importLinks(urls),
+    ).open();
+  }
+
+  // Create a bookmark for each URL, one at a time
+  async importLinks(urls: string[]) {
+    const progress = new Notice("", 0);
+    let imported = 0;
+    const failed: string[] = [];
+
+    for (const [index, url] of urls.entries()) {
+      progress.setMessage(
+        `Importing links into Hoarder: ${index + 1}/${urls.length}`,
+      );
+      if (index > 0) {
+        await sleep(IMPORT_REQUEST_INTERVAL_MS);
+      }
+
+      try {
+        await this.addBookmark({ type: "link", url });
+        imported++;
+      } catch (error) {
+        console.error(`Error importing ${url} into Hoarder:`, error);
+        failed.push(url);
+      }
+    }
+    progress.hide();
+
+    let message = `Imported ${imported} link${imported === 1 ? "" : "s"} into Hoarder`;
+    if (failed.length > 0) {
+      message += `, ${failed.length} failed (see the console for details)`;
+    }
+    new Notice(message);
+  }
+
+  // Compare a note's tags with the tags it had when it was last synced.
+  // Returns null for notes without an original_tags snapshot.
+  getLocalTagChanges(
+    file: TFile,
+  ): { tags: string[]; added: string[]; removed: string[] } | null {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter || !("original_tags" in frontmatter)) {
+      return null;
+    }
+
+    // Obsidian tags may be written with a leading # and nested tags (a/b)
+    // are kept as a single Hoarder tag
+    const toTagNames = (value: unknown): string[] => {
+      const values = Array.isArray(value)
+        ? value
+        : typeof value === "string"
+          ? value.split(",")
+          : [];
+      return values
+        .filter((tag) => tag !== null && tag !== undefined)
+        .map((tag) => String(tag).trim().replace(/^#/, ""))
+        .filter((tag) => tag.length > 0);
+    };
+
+    const tags = toTagNames(frontmatter.tags);
+    const originalTags = toTagNames(frontmatter.original_tags);
+    return {
+      tags,
+      added: tags.filter((tag) => !originalTags.includes(tag)),
+      removed: originalTags.filter((tag) => !tags.includes(tag)),
+    };
+  }
+
+  // Compare the title, favourited and archived properties of a note with
+  // their values at the last sync. Returns null for notes without snapshots.
+  getLocalPropertyChanges(file: TFile): HoarderBookmarkUpdate | null {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) {
+      return null;
+    }
+
+    const toBoolean = (value: unknown) => value === true || value === "true";
+    const toTitle = (value: unknown) =>
+      value === null || value === undefined ? "" : String(value).trim();
+
+    const changes: HoarderBookmarkUpdate = {};
+    if (
+      "original_title" in frontmatter &&
+      toTitle(frontmatter.title) !== toTitle(frontmatter.original_title)
+    ) {
+      changes.title = toTitle(frontmatter.title) || null;
+    }
+    for (const key of ["favourited", "archived"] as const) {
+      const originalKey = `original_${key}`;
+      if (
+        originalKey in frontmatter &&
+        toBoolean(frontmatter[key]) !== toBoolean(frontmatter[originalKey])
+      ) {
+        changes[key] = toBoolean(frontmatter[key]);
+      }
+    }
+    return changes;
+  }
+
+  // Record pushed properties as the new values at the last sync
+  private async saveOriginalProperties(
+    file: TFile,
+    changes: HoarderBookmarkUpdate,
+  ) {
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      for (const [key, value] of Object.entries(changes)) {
+        frontmatter[`original_${key}`] = value;
+      }
+    });
+  }
+
+  private setSyncing(value: boolean) {
+    this.isSyncing = value;
+    this.events.trigger("sync-state-change", value);
+  }
+
+  // Report an error that doesn't stop the bookmark being synced
+  private recordBookmarkError(message: string) {
+    this.bookmarkErrors?.push(message);
+  }
+
+  private reportProgress(progress: SyncProgress) {
+    this.syncProgress = progress;
+    this.events.trigger("sync-progress", progress);
+  }
+
+  // Ask the running sync to stop after the bookmark or request it is
+  // processing
+  cancelSync(): boolean {
+    if (!this.isSyncing) {
+      return false;
+    }
+    this.syncCancelRequested = true;
+    return true;
+  }
+
+  // Cheap content hash used to detect bookmarks that changed since last sync
+  getBookmarkFingerprint(bookmark: HoarderBookmark): string {
+    return this.hashString(
+      JSON.stringify([bookmark, this.bookmarkLists.get(bookmark.id) ?? []]),
+    );
+  }
+
+  // FNV-1a hash, as hex
+  hashString(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+  }
+
+  // Sync one profile, or all profiles one after another
+  async syncBookmarks(
+    fullResync: boolean = false,
+    profile?: SyncProfile,
+  ): Promise<{ success: boolean; message: string }> {
+    if (this.isSyncing) {
+      // Profiles on the same schedule would otherwise skip each other
+      if (profile) {
+        this.queuedProfileIds.add(profile.profileId);
+      }
+      return { success: false, message: "Sync already in progress" };
+    }
+
+    const profiles = (profile ? [profile] : this.getProfiles()).filter(
+      (profile) => profile.apiKey,
+    );
+    if (profiles.length === 0) {
+      return { success: false, message: "Hoarder API key not configured" };
+    }
+
+    this.setSyncing(true);
+    const messages: string[] = [];
+    const errors: string[] = [];
+    let success = true;
+    try {
+      for (const profile of profiles) {
+        if (this.syncCancelRequested) break;
+
+        this.queuedProfileIds.delete(profile.profileId);
+        const result = await this.syncProfile(profile, fullResync);
+        success &&= result.success;
+        const prefix = this.getProfileLabel(profile);
+        messages.push(prefix ? `${prefix}: ${result.message}` : result.message);
+        if (result.error) {
+          errors.push(prefix ? `${prefix}: ${result.error}` : result.error);
+        }
+      }
+      this.lastSyncError = errors.length > 0 ? errors.join("\n") : null;
+      return { success, message: messages.join("\n") };
+    } finally {
+      // Cancelling also drops the syncs waiting for this one
+      if (this.syncCancelRequested) {
+        this.queuedProfileIds.clear();
+      }
+      this.syncCancelRequested = false;
+      this.syncProgress = null;
+      this.bookmarkErrors = null;
+      this.setSyncing(false);
+      this.syncQueuedProfile();
+    }
+  }
+
+  // Start the next periodic sync that had to wait. Its result ends up in
+  // the sync log and the status bar.
+  private syncQueuedProfile() {
+    for (const profileId of this.queuedProfileIds) {
+      this.queuedProfileIds.delete(profileId);
+      const profile = this.getProfile(profileId);
+      if (profile?.apiKey) {
+        this.syncBookmarks(false, profile);
+        return;
+      }
+    }
+  }
+
+  // Profiles are only named in messages once there is more than one
+  getProfileLabel(profile: SyncProfile): string | undefined {
+    return this.settings.profiles.length > 0 ? profile.profileName : undefined;
+  }
+
+  // Sync a profile and add the result to the sync log
+  private async syncProfile(
+    profile: SyncProfile,
+    fullResync: boolean,
+  ): Promise<SyncResult> {
+    const startedAt = Date.now();
+    const stats = createSyncStats();
+    const failures: SyncFailure[] = [];
+    let result: SyncResult = {
+      success: false,
+      cancelled: false,
+      message: "Sync did not finish",
+    };
+    try {
+      result = await this.runSync(profile, fullResync, stats, failures);
+      return result;
+    } finally {
+      // Keep a log of recent syncs and the bookmarks that failed
+      this.settings.syncLog = addSyncLogEntry(this.settings.syncLog, {
+        timestamp: startedAt,
+        durationMs: Date.now() - startedAt,
+        profileName: this.getProfileLabel(profile),
+        success: result.success,
+        cancelled: result.cancelled,
+        message: result.message,
+        stats,
+        failures,
+      });
+      await this.saveSettings();
+      this.events.trigger("sync-log-change");
+    }
+  }
+
+  private async runSync(
+    profile: SyncProfile,
+    fullResync: boolean,
+    stats: SyncStats,
+    failures: SyncFailure[],
+  ): Promise<SyncResult> {
+    const seenBookmarkIds = new Set<string>();
+    const progress: SyncProgress = { page: 0, processed: 0, fetched: 0 };
+    let cancelled = false;
+    const isCancelled = () => this.syncCancelRequested;
+
+    // Incremental syncs skip bookmarks whose fingerprint hasn't changed and
+    // stop paging once a whole page predates the last sync
+    const lastSyncTimestamp = profile.lastSyncTimestamp;
+
+    // A changed file name pattern or folder rules move every note, which
+    // needs a full sync
+    const fileNameSignature = getFileNameSignature(this.getFileNameOptions());
+    const folderRulesSignature = this.getFolderRulesSignature(profile);
+    const migrateFileNames =
+      profile.appliedFileNameSignature !== fileNameSignature ||
+      profile.appliedFolderRulesSignature !== folderRulesSignature;
+
+    const incremental =
+      !fullResync &&
+      !migrateFileNames &&
+      this.settings.incrementalSync &&
+      lastSyncTimestamp > 0;
+    // Whether to page through every bookmark instead of stopping at the
+    // first page without changes
+    const fullListing =
+      !incremental ||
+      Date.now() - profile.lastFullListingTimestamp >= FULL_LISTING_INTERVAL_MS;
+    const previousFingerprints = profile.bookmarkFingerprints;
+    const fingerprints: Record<string, string> = incremental
+      ? { ...previousFingerprints }
+      : {};
+
+    // Continue an interrupted sync from the page it stopped at, if it ran
+    // with the same settings
+    const checkpointSignature = JSON.stringify([
+      profile.syncedLists.map((list) => list.id),
+      profile.excludeArchived,
+      profile.onlyFavorites,
+      fileNameSignature,
+      folderRulesSignature,
+      fullListing,
+    ]);
+    const savedCheckpoint = profile.syncCheckpoint;
+    const checkpoint =
+      savedCheckpoint &&
+      savedCheckpoint.signature === checkpointSignature &&
+      savedCheckpoint.incremental === incremental &&
+      Date.now() - savedCheckpoint.timestamp < SYNC_CHECKPOINT_MAX_AGE_MS
+        ? savedCheckpoint
+        : null;
+    if (checkpoint) {
+      checkpoint.seenBookmarkIds.forEach((id) => seenBookmarkIds.add(id));
+      Object.assign(fingerprints, checkpoint.fingerprints);
+    }
+    // The page being synced
+    let position = {
+      sourceIndex: checkpoint?.sourceIndex ?? 0,
+      cursor: checkpoint?.cursor ?? null,
+    };
+
+    // Keep what was synced so far and where the sync stopped
+    const saveCheckpoint = async () => {
+      profile.bookmarkFingerprints = {
+        ...previousFingerprints,
+        ...fingerprints,
+      };
+      const newCheckpoint: SyncCheckpoint = {
+        timestamp: Date.now(),
+        signature: checkpointSignature,
+        incremental,
+        ...position,
+        seenBookmarkIds: [...seenBookmarkIds],
+        fingerprints,
+      };
+      profile.syncCheckpoint = newCheckpoint;
+      await this.saveSettings();
+    };
+
+    try {
+      // Create sync folder if it doesn't exist
+      await this.ensureFolder(profile.syncFolder);
+
+      // Find out which lists each bookmark belongs to, if anything needs it
+      const listMembers =
+        this.settings.syncLists ||
+        this.settings.createListNotes ||
+        this.settings.folderRules.some((rule) => rule.type === "list")
+          ? await this.fetchListMembers(profile, isCancelled)
+          : [];
+      cancelled = isCancelled();
+      this.bookmarkLists = new Map();
+      for (const { list, bookmarkIds } of listMembers) {
+        for (const bookmarkId of bookmarkIds) {
+          const names = this.bookmarkLists.get(bookmarkId) ?? [];
+          names.push(list.name);
+          this.bookmarkLists.set(bookmarkId, names);
+        }
+      }
+
+      // Sync the selected lists, or all bookmarks if no list is selected
+      const sources: ((
+        cursor: string | null,
+      ) => Promise<HoarderBookmarkPage>)[] =
+        profile.syncedLists.length > 0
+          ? profile.syncedLists.map(
+              (list) => (cursor: string | null) =>
+                this.fetchListBookmarks(profile, list.id, cursor),
+            )
+          : [(cursor: string | null) => this.fetchBookmarks(profile, cursor)];
+
+      for (
+        let sourceIndex = position.sourceIndex;
+        sourceIndex < sources.length && !cancelled;
+        sourceIndex++
+      ) {
+        const fetchPage = sources[sourceIndex];
+        let cursor: string | null =
+          sourceIndex === position.sourceIndex ? position.cursor : null;
+        let hasMore = true;
+
+        while (hasMore && !cancelled) {
+          position = { sourceIndex, cursor };
+          const result = await fetchPage(cursor);
+          // Stop before the page, so the next sync fetches it again
+          if (isCancelled()) {
+            cancelled = true;
+            break;
+          }
+          const bookmarks = result.bookmarks || [];
+          cursor = result.nextCursor;
+          hasMore = cursor !== null;
+          let pageHasChanges = false;
+          progress.page++;
+          progress.fetched += bookmarks.length;
+          this.reportProgress({ ...progress });
+
+          // Process each bookmark
+          for (const bookmark of bookmarks) {
+            // Stop between bookmarks, so no note is left half updated
+            if (isCancelled()) {
+              cancelled = true;
+              break;
+            }
+            progress.processed++;
+            this.reportProgress({ ...progress });
+
+            // Bookmarks can be in more than one synced list
+            if (seenBookmarkIds.has(bookmark.id)) continue;
+
+            // List endpoints don't support the archived and favorites filters
+            if (
+              (profile.excludeArchived && bookmark.archived) ||
+              (profile.onlyFavorites && !bookmark.favourited)
+            ) {
+              continue;
+            }
+            seenBookmarkIds.add(bookmark.id);
+
+            // Check if bookmark has any excluded tags
+            let hasExcludedTag = false;
+            if (!bookmark.favourited && profile.excludedTags.length > 0) {
+              const bookmarkTags = bookmark.tags.map((tag) =>
+                tag.name.toLowerCase(),
+              );
+              hasExcludedTag = profile.excludedTags.some(
+                (excludedTag) => bookmarkTags.includes(excludedTag.toLowerCase()),
+              );
+            }
+
+            // Skip bookmarks that haven't changed since they were last synced
+            const fingerprint = this.getBookmarkFingerprint(bookmark);
+            fingerprints[bookmark.id] = fingerprint;
+            if (
+              incremental &&
+              previousFingerprints[bookmark.id] === fingerprint &&
+              new Date(bookmark.createdAt).getTime() < lastSyncTimestamp &&
+              (hasExcludedTag || this.bookmarkIndex.getFile(bookmark.id))
+            ) {
+              stats.unchangedBookmarks++;
+              continue;
+            }
+            pageHasChanges = true;
+
+            if (hasExcludedTag) {
+              stats.excludedByTags++;
+              continue;
+            }
+
+            // A failing bookmark shouldn't stop the others from syncing
+            this.bookmarkErrors = [];
+            try {
+              await this.syncBookmark(bookmark, stats, migrateFileNames);
+            } catch (error) {
+              console.error(`Error syncing bookmark ${bookmark.id}:`, error);
+              this.bookmarkErrors.push(error.message);
+            }
+            if (this.bookmarkErrors.length > 0) {
+              stats.failedBookmarks++;
+              failures.push({
+                bookmarkId: bookmark.id,
+                title: this.getBookmarkTitle(bookmark),
+                errors: this.bookmarkErrors,
+              });
+              // Try it again on the next sync
+              delete fingerprints[bookmark.id];
+            }
+            this.bookmarkErrors = null;
+          }
+
+          // Everything older than this page was synced already
+          if (!fullListing && !pageHasChanges) {
+            hasMore = false;
+          }
+        }
+      }
+
+      // Only a complete listing tells us which bookmarks are gone. Checking
+      // them stops at a cancel too, and the next sync checks them again.
+      if (fullListing && !cancelled) {
+        stats.missingBookmarks = await this.reconcileMissingBookmarks(
+          profile,
+          seenBookmarkIds,
+          stats,
+          failures,
+          isCancelled,
+        );
+        cancelled = isCancelled();
+        if (!cancelled) {
+          this.pruneBookmarkRecords(profile, seenBookmarkIds, fingerprints);
+          profile.lastFullListingTimestamp = Date.now();
+        }
+      }
+
+      if (cancelled) {
+        // Leave the rest, including the last sync time, for the next sync
+        await saveCheckpoint();
+        return {
+          success: false,
+          cancelled: true,
+          message: `Sync cancelled after ${progress.processed} of ${progress.fetched} bookmarks`,
+        };
+      }
+
+      if (this.settings.createListNotes) {
+        await this.writeListNotes(profile, listMembers);
+      }
+
+      profile.bookmarkFingerprints = fingerprints;
+      profile.syncCheckpoint = null;
+      profile.appliedFileNameSignature = fileNameSignature;
+      profile.appliedFolderRulesSignature = folderRulesSignature;
+
+      // Update last sync timestamp
+      profile.lastSyncTimestamp = Date.now();
+      await this.saveSettings();
+
+      let message = this.getSyncMessage(stats);
+      if (checkpoint) {
+        message += " (continued an interrupted sync)";
+      }
+      return {
+        success: true,
+        cancelled: false,
+        message,
+      };
+    } catch (error) {
+      console.error("Error syncing bookmarks:", error);
+
+      // Only continue later if the failure looks temporary, a bad cursor or
+      // API key would fail the same way again
+      if (isRetryableError(error)) {
+        await saveCheckpoint();
+        return {
+          success: false,
+          cancelled: false,
+          message: `Error syncing: ${error.message}. The next sync continues from where this one stopped`,
+          error: error.message,
+        };
+      }
+      if (profile.syncCheckpoint) {
+        profile.syncCheckpoint = null;
+        await this.saveSettings();
+      }
+      return {
+        success: false,
+        cancelled: false,
+        message: `Error syncing: ${error.message}`,
+        error: error.message,
+      };
+    }
+  }
+
+  // Sync a bookmark that failed in an earlier sync again
+  async retryFailedBookmark(bookmarkId: string): Promise<boolean> {
+    if (this.isSyncing) {
+      new Notice("Sync already in progress");
+      return false;
+    }
+
+    this.setSyncing(true);
+    const errors: string[] = [];
+    this.bookmarkErrors = errors;
+    try {
+      const bookmark = await this.fetchBookmark(bookmarkId);
+      if (!bookmark) {
+        throw new Error("The bookmark no longer exists in Hoarder");
+      }
+      await this.syncBookmark(bookmark, createSyncStats(), false);
+    } catch (error) {
+      console.error(`Error syncing bookmark ${bookmarkId}:`, error);
+      errors.push(error.message);
+    } finally {
+      this.bookmarkErrors = null;
+      this.setSyncing(false);
+      this.syncQueuedProfile();
+    }
+
+    for (const entry of this.settings.syncLog) {
+      for (const failure of entry.failures) {
+        if (failure.bookmarkId !== bookmarkId || failure.resolved) continue;
+        if (errors.length === 0) {
+          failure.resolved = true;
+        } else {
+          failure.errors = errors;
+        }
+      }
+    }
+    await this.saveSettings();
+    this.events.trigger("sync-log-change");
+
+    new Notice(
+      errors.length === 0
+        ? "Bookmark synced"
+        : `Failed to sync bookmark: ${errors[0]}`,
+    );
+    return errors.length === 0;
+  }
+
+  private getSyncMessage(stats: SyncStats): string {
+    let message = `Successfully synced ${stats.totalBookmarks} bookmark${
+      stats.totalBookmarks === 1 ? "" : "s"
+    }`;
+    if (stats.skippedFiles > 0) {
+      message += ` (skipped ${stats.skippedFiles} existing file${
+        stats.skippedFiles === 1 ? "" : "s"
+      })`;
+    }
+    if (stats.unchangedBookmarks > 0) {
+      message += ` (${stats.unchangedBookmarks} unchanged)`;
+    }
+    if (stats.updatedInHoarder > 0) {
+      message += ` and updated ${stats.updatedInHoarder} note${
+        stats.updatedInHoarder === 1 ? "" : "s"
+      } in Hoarder`;
+    }
+    if (stats.updatedTagsInHoarder > 0) {
+      message += ` and updated tags of ${stats.updatedTagsInHoarder} bookmark${
+        stats.updatedTagsInHoarder === 1 ? "" : "s"
+      } in Hoarder`;
+    }
+    if (stats.updatedPropertiesInHoarder > 0) {
+      message += ` and updated properties of ${stats.updatedPropertiesInHoarder} bookmark${
+        stats.updatedPropertiesInHoarder === 1 ? "" : "s"
+      } in Hoarder`;
+    }
+    if (stats.noteConflicts > 0) {
+      message += `, ${stats.noteConflicts} note conflict${
+        stats.noteConflicts === 1 ? "" : "s"
+      } to resolve`;
+    }
+    if (stats.excludedByTags > 0) {
+      message += `, excluded ${stats.excludedByTags} bookmark${
+        stats.excludedByTags === 1 ? "" : "s"
+      } by tags`;
+    }
+    if (stats.missingBookmarks > 0) {
+      message += `, found ${stats.missingBookmarks} deleted or archived bookmark${
+        stats.missingBookmarks === 1 ? "" : "s"
+      }`;
+    }
+    if (stats.failedBookmarks > 0) {
+      message += `, ${stats.failedBookmarks} bookmark${
+        stats.failedBookmarks === 1 ? "" : "s"
+      } failed (see the sync log)`;
+    }
+    return message;
+  }
+
+  // Write the note for a bookmark that doesn't have one yet
+  async createBookmarkNote(
+    bookmark: HoarderBookmark,
+    title: string = this.getBookmarkTitle(bookmark),
+  ): Promise<TFile> {
+    const fileName = this.getAvailablePath(
+      this.getBookmarkPath(bookmark, title),
+      bookmark.id,
+    );
+    await this.ensureFolder(fileName.substring(0, fileName.lastIndexOf("/")));
+    const content = await this.formatBookmarkAsMarkdown(bookmark, title);
+    const file = await this.app.vault.create(fileName, content);
+    this.bookmarkIndex.set(bookmark.id, file.path);
+    this.settings.bookmarkProperties[bookmark.id] = Object.keys(
+      this.getGeneratedProperties(content),
+    );
+    this.settings.bookmarkFolders[bookmark.id] =
+      this.getBookmarkFolder(bookmark);
+    this.settings.bookmarkTitles[bookmark.id] = title;
+    return file;
+  }
+
+  // Bring the note of one bookmark up to date, pushing local changes first
+  private async syncBookmark(
+    bookmark: HoarderBookmark,
+    stats: SyncStats,
+    migrateFileNames: boolean,
+  ) {
+    if (!this.hasBookmarkProfile(bookmark.id)) return;
+
+    // Push title, favourite and archived changes made in the note
+    // first, so they aren't mistaken for changes in Hoarder
+    const indexedFile = this.bookmarkIndex.getFile(bookmark.id);
+    if (indexedFile && this.settings.syncPropertiesToHoarder) {
+      const changes = this.getLocalPropertyChanges(indexedFile);
+      if (changes && Object.keys(changes).length > 0) {
+        const updated = await this.updateBookmarkInHoarder(
+          bookmark.id,
+          changes,
+        );
+        if (updated) {
+          stats.updatedPropertiesInHoarder++;
+          Object.assign(bookmark, changes); // Update the bookmark object with local properties
+          await this.saveOriginalProperties(indexedFile, changes);
+        }
+      }
+    }
+
+    const title = this.getBookmarkTitle(bookmark);
+    const existingFile = await this.findBookmarkFile(
+      bookmark,
+      title,
+      migrateFileNames,
+    );
+
+    if (existingFile) {
+      // The bookmark is back, so drop any deleted/archived marker
+      if (
+        this.app.metadataCache.getFileCache(existingFile)?.frontmatter
+          ?.hoarder_status
+      ) {
+        await this.app.fileManager.processFrontMatter(
+          existingFile,
+          (frontmatter) => {
+            delete frontmatter["hoarder_status"];
+          },
+        );
+      }
+
+      // Leave notes with unresolved conflicts alone until resolved
+      if (
+        this.app.metadataCache.getFileCache(existingFile)?.frontmatter
+          ?.hoarder_conflict
+      ) {
+        stats.noteConflicts++;
+        return;
+      }
+
+      // Check for local changes to notes if bi-directional sync is enabled
+      if (this.settings.syncNotesToHoarder) {
+        const { currentNotes, originalNotes } =
+          await this.extractNotesFromFile(existingFile.path);
+        const remoteNotes = bookmark.note || "";
+
+        // Only update if notes have changed from their original version
+        if (
+          currentNotes !== null &&
+          originalNotes !== null &&
+          currentNotes !== originalNotes &&
+          currentNotes !== remoteNotes
+        ) {
+          // Combine with changes made in Hoarder since the last sync
+          const { merged, conflict } = mergeThreeWay(
+            originalNotes,
+            currentNotes,
+            remoteNotes,
+          );
+          if (conflict) {
+            await this.app.fileManager.processFrontMatter(
+              existingFile,
+              (frontmatter) => {
+                frontmatter["hoarder_conflict"] = true;
+              },
             );
-            if (hasExcludedTag) {
-              excludedByTags++;
-              continue;
-            }
+            stats.noteConflicts++;
+            return;
           }
 
-          const title = this.getBookmarkTitle(bookmark);
-          const fileName = `${folderPath}/${this.sanitizeFileName(
-            title,
-            bookmark.createdAt,
-          )}.md`;
-
-          const fileExists = await this.app.vault.adapter.exists(fileName);
-
-          if (fileExists) {
-            // Check for local changes to notes if bi-directional sync is enabled
-            if (this.settings.syncNotesToHoarder) {
-              const { currentNotes, originalNotes } =
-                await this.extractNotesFromFile(fileName);
-              const remoteNotes = bookmark.note || "";
-
-              // Only update if notes have changed from their original version
-              if (
-                currentNotes !== null &&
-                originalNotes !== null &&
-                currentNotes !== originalNotes &&
-                currentNotes !== remoteNotes
-              ) {
-                // Local notes have changed from original, update in Hoarder
-                const updated = await this.updateBookmarkInHoarder(
-                  bookmark.id,
-                  currentNotes,
-                );
-                if (updated) {
-                  updatedInHoarder++;
-                  bookmark.note = currentNotes; // Update the bookmark object with local notes
-                }
-              }
+          // Local notes have changed from original, update in Hoarder
+          const updated = await this.updateBookmarkInHoarder(
+            bookmark.id,
+            { note: merged },
+          );
+          if (updated) {
+            stats.updatedInHoarder++;
+            bookmark.note = merged; // Update the bookmark object with local notes
+            if (merged !== currentNotes) {
+              await this.writeNotesToFile(existingFile, merged);
             }
+          }
+        }
+      }
 
-            if (this.settings.updateExistingFiles) {
-              const content = await this.formatBookmarkAsMarkdown(
-                bookmark,
-                title,
-              );
-              await this.app.vault.adapter.write(fileName, content);
-              totalBookmarks++;
-            } else {
-              this.skippedFiles++;
-            }
-          } else {
-            const content = await this.formatBookmarkAsMarkdown(
-              bookmark,
-              title,
+      // Push tags added or removed in the frontmatter
+      if (this.settings.syncTagsToHoarder) {
+        const tagChanges = this.getLocalTagChanges(existingFile);
+        if (
+          tagChanges &&
+          (tagChanges.added.length > 0 ||
+            tagChanges.removed.length > 0)
+        ) {
+          const updated = await this.updateBookmarkTagsInHoarder(
+            bookmark.id,
+            tagChanges.added,
+            tagChanges.removed,
+          );
+          if (updated) {
+            stats.updatedTagsInHoarder++;
+            // Update the bookmark object, keeping existing tags as
+            // they were attached
+            bookmark.tags = [
+              ...bookmark.tags.filter(
+                (tag) => !tagChanges.removed.includes(tag.name),
+              ),
+              ...tagChanges.added
+                .filter(
+                  (name) =>
+                    !bookmark.tags.some((tag) => tag.name === name),
+                )
+                .map((name) => ({
+                  id: "",
+                  name,
+                  attachedBy: "human" as const,
+                })),
+            ];
+            await this.app.fileManager.processFrontMatter(
+              existingFile,
+              (frontmatter) => {
+                frontmatter["original_tags"] = tagChanges.tags;
+              },
             );
-            await this.app.vault.create(fileName, content);
-            totalBookmarks++;
           }
         }
       }
 
-      // Update last sync timestamp
-      this.settings.lastSyncTimestamp = Date.now();
-      await this.saveSettings();
+      if (this.settings.updateExistingFiles) {
+        const content = await this.formatBookmarkAsMarkdown(
+          bookmark,
+          title,
+        );
+        await this.updateExistingNote(existingFile, content, bookmark);
+        stats.totalBookmarks++;
+      } else {
+        stats.skippedFiles++;
+      }
+    } else {
+      await this.createBookmarkNote(bookmark, title);
+      stats.totalBookmarks++;
+    }
+  }
 
-      let message = `Successfully synced ${totalBookmarks} bookmark${
-        totalBookmarks === 1 ? "" : "s"
-      }`;
-      if (this.skippedFiles > 0) {
-        message += ` (skipped ${this.skippedFiles} existing file${
-          this.skippedFiles === 1 ? "" : "s"
-        })`;
+  // Handle notes whose bookmark was not returned by a full sync
+  private async reconcileMissingBookmarks(
+    profile: SyncProfile,
+    seenBookmarkIds: Set<string>,
+    stats: SyncStats,
+    failures: SyncFailure[],
+    isCancelled: () => boolean,
+  ): Promise<number> {
+    const action = this.settings.missingBookmarkAction;
+    if (action === "ignore") {
+      return 0;
+    }
+
+    let missingBookmarks = 0;
+    for (const [bookmarkId] of this.bookmarkIndex.entries()) {
+      if (isCancelled()) break;
+      if (seenBookmarkIds.has(bookmarkId)) continue;
+      if (this.filteredBookmarkIds.has(bookmarkId)) continue;
+      // Other profiles' bookmarks weren't part of this sync
+      if (parseBookmarkKey(bookmarkId).profileId !== profile.profileId) {
+        continue;
       }
-      if (updatedInHoarder > 0) {
-        message += ` and updated ${updatedInHoarder} note${
-          updatedInHoarder === 1 ? "" : "s"
-        } in Hoarder`;
+
+      const file = this.bookmarkIndex.getFile(bookmarkId);
+      if (!file) continue;
+
+      // Skip notes we already handled in a previous sync
+      const frontmatter =
+        this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (frontmatter?.hoarder_status) continue;
+
+      // Notes of bookmarks that aren't favorites, such as those written by
+      // Search Hoarder, were never part of the listing
+      if (profile.onlyFavorites && frontmatter?.favourited === false) {
+        continue;
       }
-      if (excludedByTags > 0) {
-        message += `, excluded ${excludedByTags} bookmark${
-          excludedByTags === 1 ? "" : "s"
-        } by tags`;
+
+      // A failing bookmark shouldn't stop the others from being checked
+      try {
+        if (await this.reconcileMissingBookmark(profile, bookmarkId, file)) {
+          missingBookmarks++;
+        }
+      } catch (error) {
+        console.error(`Error checking bookmark ${bookmarkId}:`, error);
+        stats.failedBookmarks++;
+        failures.push({
+          bookmarkId,
+          title: String(frontmatter?.title ?? file.basename),
+          errors: [error.message],
+        });
       }
+    }
 
-      return {
-        success: true,
-        message,
-      };
-    } catch (error) {
-      console.error("Error syncing bookmarks:", error);
-      return {
-        success: false,
-        message: `Error syncing: ${error.message}`,
-      };
-    } finally {
-      this.setSyncing(false);
-      this.skippedFiles = 0;
+    return missingBookmarks;
+  }
+
+  // Mark, move or trash the note of a bookmark missing from a full sync.
+  // Returns whether the bookmark turned out to be deleted or archived.
+  private async reconcileMissingBookmark(
+    profile: SyncProfile,
+    bookmarkId: string,
+    file: TFile,
+  ): Promise<boolean> {
+    // Ask Hoarder why the bookmark is missing
+    const bookmark = await this.fetchBookmark(bookmarkId);
+    let status: "deleted" | "archived";
+    if (!bookmark) {
+      status = "deleted";
+    } else if (bookmark.archived && profile.excludeArchived) {
+      status = "archived";
+    } else {
+      // Still there, just filtered out (e.g. no longer a favorite)
+      this.filteredBookmarkIds.add(bookmarkId);
+      return false;
+    }
+
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      frontmatter["hoarder_status"] = status;
+    });
+
+    const action = this.settings.missingBookmarkAction;
+    if (action === "move") {
+      const folderPath = this.settings.missingBookmarksFolder;
+      await this.ensureFolder(folderPath);
+      const newPath = normalizePath(`${folderPath}/${file.name}`);
+      if (!this.app.vault.getAbstractFileByPath(newPath)) {
+        await this.app.fileManager.renameFile(file, newPath);
+      }
+    } else if (action === "trash") {
+      // Never throw away notes the user has written in, just keep the marker
+      if (!(await this.hasLocalNoteEdits(file))) {
+        await this.app.fileManager.trashFile(file);
+      }
     }
+    return true;
   }
 
-  sanitizeFileName(title: string, created_at: string): string {
-    // Format the date as YYYY-MM-DD
-    const date = new Date(created_at);
-    const dateStr = date.toISOString().split("T")[0]; // This is 10 characters
+  // Forget what was recorded about a profile's bookmarks that are no longer
+  // listed and have no note, so the settings don't keep growing
+  private pruneBookmarkRecords(
+    profile: SyncProfile,
+    seenBookmarkIds: Set<string>,
+    fingerprints: Record<string, string>,
+  ) {
+    for (const bookmarkId of Object.keys(fingerprints)) {
+      if (!seenBookmarkIds.has(bookmarkId)) {
+        delete fingerprints[bookmarkId];
+      }
+    }
+    this.forgetBookmarks(
+      (key) =>
+        parseBookmarkKey(key).profileId === profile.profileId &&
+        !seenBookmarkIds.has(key) &&
+        !this.bookmarkIndex.getFile(key),
+    );
+  }
 
-    // Sanitize the title
-    let sanitizedTitle = title
-      .replace(/[\\/:*?"<>|]/g, "-") // Replace invalid characters with dash
-      .replace(/\s+/g, "-") // Replace spaces with dash
-      .replace(/-+/g, "-") // Replace multiple dashes with single dash
-      .replace(/^-|-$/g, ""); // Remove dashes from start and end
+  // Drop the file name, folder and property records of matching bookmarks
+  private forgetBookmarks(shouldForget: (key: string) => boolean) {
+    const records = [
+      this.settings.bookmarkFolders,
+      this.settings.bookmarkTitles,
+      this.settings.bookmarkProperties,
+    ];
+    for (const record of records) {
+      for (const key of Object.keys(record)) {
+        if (shouldForget(key)) {
+          delete record[key];
+        }
+      }
+    }
+  }
 
-    // Calculate how much space we have for the title
-    // 50 (max) - 10 (date) - 1 (dash) - 3 (.md) = 36 characters for title
-    const maxTitleLength = 36;
+  // Check whether the Notes section differs from the last synced note
+  private async hasLocalNoteEdits(file: TFile): Promise<boolean> {
+    const { currentNotes, originalNotes } = await this.extractNotesFromFile(
+      file.path,
+    );
+    return (currentNotes || "") !== String(originalNotes || "").trim();
+  }
 
-    if (sanitizedTitle.length > maxTitleLength) {
-      // If title is too long, try to cut at a word boundary
-      const truncated = sanitizedTitle.substring(0, maxTitleLength);
-      const lastDash = truncated.lastIndexOf("-");
-      if (lastDash > maxTitleLength / 2) {
-        // If we can find a reasonable word break, use it
-        sanitizedTitle = truncated.substring(0, lastDash);
-      } else {
-        // Otherwise just truncate
-        sanitizedTitle = truncated;
+  // Create a folder and any missing parent folders
+  async ensureFolder(folderPath: string) {
+    let currentPath = "";
+    const parts = normalizePath(folderPath).split("/").filter(Boolean);
+    for (const part of parts) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+      if (!(await this.app.vault.adapter.exists(currentPath))) {
+        try {
+          await this.app.vault.createFolder(currentPath);
+        } catch (error) {
+          // Parallel downloads may have created it in the meantime
+          if (!(await this.app.vault.adapter.exists(currentPath))) {
+            throw error;
+          }
+        }
+      }
+    }
+  }
+
+  getFileNameOptions(): FileNameOptions {
+    return {
+      pattern: this.settings.fileNamePattern,
+      maxLength: this.settings.fileNameMaxLength,
+      keepSpaces: this.settings.keepSpacesInFileNames,
+    };
+  }
+
+  getFolderRulesSignature(profile: SyncProfile): string {
+    return JSON.stringify([profile.syncFolder, this.settings.folderRules]);
+  }
+
+  // The folder a bookmark's note belongs in according to the folder rules
+  getBookmarkFolder(bookmark: HoarderBookmark): string {
+    const url =
+      bookmark.content.type === "link"
+        ? bookmark.content.url
+        : bookmark.content.sourceUrl;
+    let domain = "";
+    try {
+      domain = url ? new URL(url).hostname.replace(/^www\./, "") : "";
+    } catch {
+      // Ignore invalid URLs
+    }
+
+    const folder = getRuleFolder(this.settings.folderRules, {
+      tags: bookmark.tags.map((tag) => tag.name),
+      lists: this.bookmarkLists.get(bookmark.id) ?? [],
+      types: [bookmark.content.type, bookmark.content.assetType ?? ""].filter(
+        Boolean,
+      ),
+      domain,
+    });
+    return normalizePath(
+      folder || this.getBookmarkProfile(bookmark.id).syncFolder,
+    );
+  }
+
+  // Where a bookmark's note belongs according to the folder rules and the
+  // file name pattern
+  getBookmarkPath(bookmark: HoarderBookmark, title: string): string {
+    const fileName = formatFileName(this.getFileNameOptions(), {
+      id: bookmark.id,
+      title,
+      createdAt: bookmark.createdAt,
+      type: bookmark.content.type,
+      url:
+        bookmark.content.type === "link"
+          ? bookmark.content.url
+          : (bookmark.content.sourceUrl ?? undefined),
+    });
+    return normalizePath(`${this.getBookmarkFolder(bookmark)}/${fileName}.md`);
+  }
+
+  // Resolve name collisions by suffixing the path with a short bookmark id
+  private getAvailablePath(
+    path: string,
+    bookmarkId: string,
+    file: TFile | null = null,
+  ): string {
+    const isFree = (candidate: string) => {
+      const existing = this.app.vault.getAbstractFileByPath(candidate);
+      return !existing || existing === file;
+    };
+
+    if (isFree(path)) {
+      return path;
+    }
+
+    const base = path.replace(/\.md$/, "");
+    const separator = this.settings.keepSpacesInFileNames ? " " : "-";
+    // Without the profile id, colons aren't allowed in file names
+    const { bookmarkId: id } = parseBookmarkKey(bookmarkId);
+    const shortIdPath = `${base}${separator}${id.slice(0, 8)}.md`;
+    if (isFree(shortIdPath)) {
+      return shortIdPath;
+    }
+    return `${base}${separator}${id}.md`;
+  }
+
+  // Find the note for a bookmark, moving it if its title, its folder rule or
+  // the file name pattern changed
+  private async findBookmarkFile(
+    bookmark: HoarderBookmark,
+    title: string,
+    migrateFileNames: boolean,
+  ): Promise<TFile | null> {
+    let file = this.bookmarkIndex.getFile(bookmark.id);
+
+    if (!file) {
+      // Fall back to the pattern-derived path for notes we haven't indexed
+      // yet. A note of another bookmark with the same name is left alone, so
+      // this one gets a path with its short id instead.
+      const patternFile = this.app.vault.getAbstractFileByPath(
+        this.getBookmarkPath(bookmark, title),
+      );
+      if (!(patternFile instanceof TFile)) {
+        return null;
+      }
+      const indexedId = this.bookmarkIndex.getBookmarkId(patternFile.path);
+      if (indexedId !== null && indexedId !== bookmark.id) {
+        return null;
+      }
+      file = patternFile;
+      this.bookmarkIndex.set(bookmark.id, file.path);
+    }
+
+    // Compare with the title the note was last named after, as a local
+    // title edit that was just pushed has already updated original_title.
+    // Notes synced before titles were kept fall back to the frontmatter.
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const previousTitle =
+      this.settings.bookmarkTitles[bookmark.id] ??
+      frontmatter?.original_title ??
+      frontmatter?.title;
+    const titleChanged =
+      previousTitle !== undefined &&
+      previousTitle !== null &&
+      String(previousTitle).trim() !== title.trim();
+    this.settings.bookmarkTitles[bookmark.id] = title;
+
+    const folder = this.getBookmarkFolder(bookmark);
+    const previousFolder =
+      this.settings.bookmarkFolders[bookmark.id] ??
+      this.getBookmarkProfile(bookmark.id).syncFolder;
+    const folderChanged = folder !== previousFolder;
+    this.settings.bookmarkFolders[bookmark.id] = folder;
+
+    if (!titleChanged && !migrateFileNames && !folderChanged) {
+      return file;
+    }
+
+    // Move the note to its new path and let Obsidian update links to it.
+    // Notes the user moved elsewhere keep their folder unless a folder rule
+    // now puts them somewhere else.
+    let newPath = this.getBookmarkPath(bookmark, title);
+    if (!folderChanged && !file.path.startsWith(`${previousFolder}/`)) {
+      newPath = normalizePath(
+        `${file.parent?.path ?? ""}/${newPath.split("/").pop()}`,
+      );
+    }
+    newPath = this.getAvailablePath(newPath, bookmark.id, file);
+    if (newPath !== file.path) {
+      await this.ensureFolder(newPath.substring(0, newPath.lastIndexOf("/")));
+      await this.app.fileManager.renameFile(file, newPath);
+    }
+
+    if (titleChanged) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        frontmatter["title"] = title;
+        if ("original_title" in frontmatter) {
+          frontmatter["original_title"] = title;
+        }
+      });
+    }
+
+    return file;
+  }
+
+  // Find attachments that no note links to or embeds
+  async findUnusedAttachments(): Promise<TFile[]> {
+    const referencedPaths = new Set<string>();
+    for (const links of Object.values(this.app.metadataCache.resolvedLinks)) {
+      for (const path of Object.keys(links)) {
+        referencedPaths.add(path);
+      }
+    }
+
+    // Links Obsidian couldn't resolve, e.g. paths with spaces in markdown
+    // links, still count when a synced note mentions the file
+    const noteContents: string[] = [];
+    for (const [bookmarkId] of this.bookmarkIndex.entries()) {
+      const file = this.bookmarkIndex.getFile(bookmarkId);
+      if (file) {
+        noteContents.push(await this.app.vault.cachedRead(file));
+      }
+    }
+
+    return this.attachmentStore
+      .getFiles()
+      .filter(
+        (file) =>
+          !referencedPaths.has(file.path) &&
+          !noteContents.some(
+            (content) =>
+              content.includes(file.name) ||
+              content.includes(encodeURI(file.name)),
+          ),
+      );
+  }
+
+  // Show the unused attachments and move them to the trash once confirmed
+  private async cleanUpAttachments() {
+    try {
+      const files = await this.findUnusedAttachments();
+      if (files.length === 0) {
+        new Notice("No unused Hoarder attachments");
+        return;
       }
+
+      new AttachmentCleanupModal(this.app, files, async () => {
+        let removed = 0;
+        for (const file of files) {
+          try {
+            await this.app.fileManager.trashFile(file);
+            removed++;
+          } catch (error) {
+            console.error(`Error removing ${file.path}:`, error);
+          }
+        }
+        new Notice(
+          `Removed ${removed} unused attachment${removed === 1 ? "" : "s"}`,
+        );
+      }).open();
+    } catch (error) {
+      console.error("Error finding unused attachments:", error);
+      new Notice(`Failed to clean up attachments: ${error.message}`);
+    }
+  }
+
+  // Download a Hoarder asset or an external file into the attachment store.
+  // Returns null if the download fails or is over the size limit.
+  async downloadAsset(
+    client: HoarderClient,
+    url: string,
+    assetId: string,
+    fallbackExtension: string = "jpg",
+  ): Promise<string | null> {
+    // An asset requested again while it downloads is only downloaded once
+    const pending = this.pendingDownloads.get(assetId);
+    if (pending) {
+      return pending;
     }
 
-    return `${dateStr}-${sanitizedTitle}`;
+    const download = this.downloadLimiter
+      .run(() => this.saveAsset(client, url, assetId, fallbackExtension))
+      .finally(() => this.pendingDownloads.delete(assetId));
+    this.pendingDownloads.set(assetId, download);
+    return download;
   }
 
-  async downloadImage(
+  private async saveAsset(
+    client: HoarderClient,
     url: string,
     assetId: string,
-    title: string,
+    fallbackExtension: string,
   ): Promise<string | null> {
     try {
       // Create attachments folder if it doesn't exist
-      if (
-        !(await this.app.vault.adapter.exists(this.settings.attachmentsFolder))
-      ) {
-        await this.app.vault.createFolder(this.settings.attachmentsFolder);
-      }
+      await this.ensureFolder(this.settings.attachmentsFolder);
 
-      // Get file extension from URL or default to jpg
-      const extension = url.split(".").pop()?.toLowerCase() || "jpg";
-      const safeExtension = ["jpg", "jpeg", "png", "gif", "webp"].includes(
-        extension,
-      )
-        ? extension
-        : "jpg";
+      // Each asset is only downloaded once
+      const existingFile = await this.attachmentStore.get(assetId);
+      if (existingFile) {
+        return existingFile.path;
+      }
 
-      // Create a safe filename
-      const safeTitle = this.sanitizeFileName(title, new Date().toISOString())
-        .split("-")
-        .slice(1)
-        .join("-");
-      const fileName = `${assetId}-${safeTitle}.${safeExtension}`;
-      const filePath = `${this.settings.attachmentsFolder}/${fileName}`;
+      const response = await client.download(url);
 
-      // Check if file already exists
-      if (await this.app.vault.adapter.exists(filePath)) {
-        return filePath;
+      // Check the announced size first to avoid downloading large files
+      const maxBytes = this.settings.maxAssetSizeMB * 1024 * 1024;
+      const contentLength = Number(response.headers["content-length"]);
+      if (maxBytes > 0 && contentLength > maxBytes) {
+        console.warn(`Skipping ${url}: larger than the maximum asset size`);
+        return null;
       }
 
-      // Download the image
-      const headers: Record<string, string> = {};
-      // Check if this is a Hoarder asset URL by checking if it's from the same domain
-      const apiDomain = new URL(this.settings.apiBaseUrl).origin;
-      if (url.startsWith(apiDomain)) {
-        headers["Authorization"] = `Bearer ${this.settings.apiKey}`;
+      const buffer = await response.arrayBuffer();
+      if (maxBytes > 0 && buffer.byteLength > maxBytes) {
+        console.warn(`Skipping ${url}: larger than the maximum asset size`);
+        return null;
       }
 
-      const response = await fetch(url, { headers });
-      if (!response.ok)
-        throw new Error(`HTTP error! status: ${response.status}`);
+      const extension = getAssetExtension(
+        response.headers["content-type"],
+        url,
+        fallbackExtension,
+      );
+      const file = await this.attachmentStore.save(assetId, extension, buffer);
 
-      const buffer = await response.arrayBuffer();
-      await this.app.vault.adapter.writeBinary(filePath, buffer);
+      return file.path;
+    } catch (error) {
+      console.error("Error downloading asset:", error);
+      this.recordBookmarkError(`Downloading ${url} failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  // Convert the article of a link's page to markdown, using the full page
+  // archive when Hoarder has no HTML content for it
+  async getReadableContent(bookmark: HoarderBookmark): Promise<string> {
+    const client = this.getClient(this.getBookmarkProfile(bookmark.id));
+    let html: string | null = bookmark.content.htmlContent ?? null;
+    if (!html && bookmark.content.fullPageArchiveAssetId) {
+      html = await this.fetchAssetText(
+        client,
+        bookmark.content.fullPageArchiveAssetId,
+      );
+    }
+    if (!html) {
+      return "";
+    }
+
+    const content = extractReadableContent(html, bookmark.content.url);
+
+    if (this.settings.downloadContentImages) {
+      await Promise.all(
+        Array.from(content.querySelectorAll("img")).map(async (img) => {
+          const src = img.getAttribute("src");
+          if (!src || !/^https?:\/\//.test(src)) return;
+
+          const imagePath = await this.downloadAsset(
+            client,
+            src,
+            `content-${this.hashString(src)}`,
+          );
+          if (imagePath) {
+            img.setAttribute("src", encodeURI(imagePath));
+          }
+        }),
+      );
+    }
+
+    return htmlToMarkdown(content);
+  }
 
-      return filePath;
+  // Fetch a text asset such as a full page archive, or null if it fails
+  private async fetchAssetText(
+    client: HoarderClient,
+    assetId: string,
+  ): Promise<string | null> {
+    try {
+      const response = await client.getAsset(assetId);
+      return await response.text();
     } catch (error) {
-      console.error("Error downloading image:", error);
+      console.error("Error fetching asset:", error);
+      this.recordBookmarkError(
+        `Fetching asset ${assetId} failed: ${error.message}`,
+      );
       return null;
     }
   }
 
+  // Load the user's note template, falling back to the built-in layout
+  async loadNoteTemplate(): Promise<TemplateNode[]> {
+    const templatePath = this.settings.templateFile;
+    if (!templatePath) {
+      return parseTemplate(DEFAULT_NOTE_TEMPLATE);
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(templatePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Note template not found: ${templatePath}`);
+    }
+
+    const source = await this.app.vault.cachedRead(file);
+    const problems = validateTemplate(source);
+    if (problems.length > 0) {
+      throw new Error(`Invalid note template: ${problems[0]}`);
+    }
+    return parseTemplate(source);
+  }
+
   async formatBookmarkAsMarkdown(
     bookmark: HoarderBookmark,
     title: string,
@@ -539,60 +2765,18 @@ export default class HoarderPlugin extends Plugin {
         : bookmark.content.text;
     const tags = bookmark.tags.map((tag) => tag.name);
 
-    // Helper function to get asset URL
-    const getAssetUrl = (assetId: string): string => {
-      const baseUrl = this.settings.apiBaseUrl;
-      return `${baseUrl}/api/assets/${assetId}`;
-    };
-
-    // Helper function to escape YAML values
-    const escapeYaml = (str: string | null | undefined): string => {
-      if (!str) return "";
-      // If string contains newlines or special characters, use block scalar
-      if (str.includes("\n") || /[:#{}\[\],&*?|<>=!%@`]/.test(str)) {
-        return `|\n  ${str.replace(/\n/g, "\n  ")}`;
-      }
-      // For simple strings, just wrap in quotes if needed
-      if (str.includes('"')) {
-        return `'${str}'`;
-      }
-      if (str.includes("'") || /^[ \t]|[ \t]$/.test(str)) {
-        return `"${str.replace(/"/g, '\\"')}"`;
-      }
-      return str;
-    };
-
-    // Helper function to escape tag values
-    const escapeTag = (tag: string): string => {
-      // Always quote tags to handle spaces and special characters
-      if (tag.includes('"')) {
-        return `'${tag}'`;
-      }
-      return `"${tag}"`;
-    };
+    // Assets are downloaded from the server the bookmark was synced from
+    const client = this.getClient(this.getBookmarkProfile(bookmark.id));
+    const getAssetUrl = (assetId: string): string =>
+      client.getAssetUrl(assetId);
 
     // Check for full page archive
     const fullPageArchiveAsset = bookmark.content.fullPageArchiveAssetId 
-      ? `${this.settings.apiBaseUrl}/api/assets/${bookmark.content.fullPageArchiveAssetId}`
+      ? getAssetUrl(bookmark.content.fullPageArchiveAssetId)
       : "";
 
-    let content = `---
-bookmark_id: "${bookmark.id}"
-url: ${escapeYaml(url)}
-title: ${escapeYaml(title)}
-date: ${new Date(bookmark.createdAt).toISOString()}
-full_page_archive: ${escapeYaml(fullPageArchiveAsset)}
-tags:
-  - ${tags.map(escapeTag).join("\n  - ")}
-note: ${escapeYaml(bookmark.note)}
-original_note: ${escapeYaml(bookmark.note)}
-summary: ${escapeYaml(bookmark.summary)}
----
-
-# ${title}
-`;
-
     // Handle images
+    let imagePath: string | null = null;
     if (
       bookmark.content.type === "asset" &&
       bookmark.content.assetType === "image"
@@ -600,139 +2784,271 @@ summary: ${escapeYaml(bookmark.summary)}
       // If we have an asset ID, download and use local path
       if (bookmark.content.assetId) {
         const assetUrl = getAssetUrl(bookmark.content.assetId);
-        const imagePath = await this.downloadImage(
+        imagePath = await this.downloadAsset(
+          client,
           assetUrl,
           bookmark.content.assetId,
-          title,
         );
-        if (imagePath) {
-          content += `\n![${title}](${imagePath})\n`;
-        }
       }
       // Otherwise use source URL directly
       else if (bookmark.content.sourceUrl) {
-        content += `\n![${title}](${bookmark.content.sourceUrl})\n`;
+        imagePath = bookmark.content.sourceUrl;
       }
     } else if (bookmark.content.type === "link") {
       // For link types, only download Hoarder-hosted images
       if (bookmark.content.imageAssetId) {
         const assetUrl = getAssetUrl(bookmark.content.imageAssetId);
-        const imagePath = await this.downloadImage(
+        imagePath = await this.downloadAsset(
+          client,
           assetUrl,
           bookmark.content.imageAssetId,
-          title,
         );
-        if (imagePath) {
-          content += `\n![${title}](${imagePath})\n`;
-        }
       }
       // Use external image URL directly
       else if (bookmark.content.imageUrl) {
-        content += `\n![${title}](${bookmark.content.imageUrl})\n`;
+        imagePath = bookmark.content.imageUrl;
       }
     }
 
-    // Add summary if available
-    if (bookmark.summary) {
-      content += `\n## Summary\n\n${bookmark.summary}\n`;
+    // Download the other assets whose type is enabled, to embed them
+    const embedAsset = async (
+      enabled: boolean,
+      assetId: string | null | undefined,
+      fallbackExtension: string,
+    ): Promise<string> => {
+      if (!enabled || !assetId) {
+        return "";
+      }
+      const assetPath = await this.downloadAsset(
+        client,
+        getAssetUrl(assetId),
+        assetId,
+        fallbackExtension,
+      );
+      return assetPath ? getAssetEmbed(assetPath) : "";
+    };
+    const [screenshot, pdf, archive, video] = await Promise.all([
+      embedAsset(
+        this.settings.downloadScreenshots,
+        bookmark.content.screenshotAssetId,
+        "png",
+      ),
+      embedAsset(
+        this.settings.downloadPdfs && bookmark.content.assetType === "pdf",
+        bookmark.content.type === "asset"
+          ? bookmark.content.assetId
+          : undefined,
+        "pdf",
+      ),
+      embedAsset(
+        this.settings.downloadArchives,
+        bookmark.content.fullPageArchiveAssetId,
+        "html",
+      ),
+      embedAsset(
+        this.settings.downloadVideos,
+        bookmark.content.videoAssetId,
+        "mp4",
+      ),
+    ]);
+
+    // Convert HTML content if available and enabled
+    let markdownContent = "";
+    if (this.settings.importContent && bookmark.content.type === "link") {
+      markdownContent = await this.getReadableContent(bookmark);
     }
 
-    // Add description if available
-    if (description) {
-      content += `\n## Description\n\n${description}\n`;
-    }
+    const template = await this.loadNoteTemplate();
+    return renderTemplate(template, {
+      id: bookmark.id,
+      title,
+      url,
+      date: new Date(bookmark.createdAt).toISOString(),
+      type: bookmark.content.type,
+      isLink: bookmark.content.type === "link",
+      isText: bookmark.content.type === "text",
+      isAsset: bookmark.content.type === "asset",
+      assetType: bookmark.content.assetType,
+      tags,
+      aiTags: bookmark.tags
+        .filter((tag) => tag.attachedBy === "ai")
+        .map((tag) => tag.name),
+      humanTags: bookmark.tags
+        .filter((tag) => tag.attachedBy === "human")
+        .map((tag) => tag.name),
+      lists: this.settings.syncLists
+        ? (this.bookmarkLists.get(bookmark.id) ?? [])
+        : [],
+      note: bookmark.note || "",
+      summary: bookmark.summary,
+      description,
+      text: bookmark.content.text,
+      content: markdownContent,
+      image: imagePath ? `![${title}](${imagePath})` : "",
+      imagePath,
+      fullPageArchive: fullPageArchiveAsset,
+      screenshot,
+      pdf,
+      archive,
+      video,
+      favourited: bookmark.favourited,
+      archived: bookmark.archived,
+    });
+  }
 
-    // Add Content section if available and enabled
-    if (this.settings.importContent && bookmark.content.type === "link" && bookmark.content.htmlContent) {
-      content += "\n## Content\n\n";
-      const TurndownService = require('turndown');
-      const turndownService = new TurndownService({
-        headingStyle: 'atx',
-        hr: '---',
-        bulletListMarker: '-',
-        codeBlockStyle: 'fenced'
-      });
+  private async handleFileModification(file: TFile) {
+    try {
+      // Get bookmark ID from frontmatter using MetadataCache
+      const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      const bookmarkId = metadata?.bookmark_id;
+      if (!bookmarkId) return;
+      // Notes of removed profiles are no longer synced
+      if (!this.hasBookmarkProfile(String(bookmarkId))) return;
 
-      // Convert HTML directly to markdown
-      const markdownContent = turndownService.turndown(bookmark.content.htmlContent);
-      content += `${markdownContent}\n`;
-    }
+      if (this.settings.syncNotesToHoarder) {
+        await this.syncNotesFromFile(file, bookmarkId);
+      }
 
-    // Add Notes section
-    content += "\n## Notes\n\n";
-    content += `${bookmark.note || ""}\n`;
+      if (this.settings.syncTagsToHoarder) {
+        await this.syncTagsFromFile(file, bookmarkId);
+      }
 
-    // Add link if available (and it's not just an image)
-    if (url && bookmark.content.type !== "asset") {
-      content += `\n[Visit Link](${url})\n`;
+      if (this.settings.syncPropertiesToHoarder) {
+        await this.syncPropertiesFromFile(file, bookmarkId);
+      }
+    } catch (error) {
+      console.error("Error handling file modification:", error);
+      new Notice("Failed to sync changes to Hoarder");
     }
-
-    return content;
   }
 
-  private async handleFileModification(file: TFile) {
-    try {
-      // Extract current and original notes
-      const { currentNotes, originalNotes } = await this.extractNotesFromFile(
-        file.path,
-      );
+  private async syncNotesFromFile(file: TFile, bookmarkId: string) {
+    // Extract current and original notes
+    const { currentNotes, originalNotes } = await this.extractNotesFromFile(
+      file.path,
+    );
 
-      // Convert null to empty string for comparison
-      const currentNotesStr = currentNotes || "";
-      const originalNotesStr = originalNotes || "";
+    // Convert null to empty string for comparison
+    const currentNotesStr = currentNotes || "";
+    const originalNotesStr = originalNotes || "";
 
-      // Skip if we just synced these exact notes
-      if (currentNotesStr === this.lastSyncedNotes) {
-        return;
-      }
+    // Skip if we just synced these exact notes
+    if (currentNotesStr === this.lastSyncedNotes) {
+      return;
+    }
 
-      // Get bookmark ID from frontmatter using MetadataCache
-      const metadata = this.app.metadataCache.getFileCache(file)?.frontmatter;
-      const bookmarkId = metadata?.bookmark_id;
-      if (!bookmarkId) return;
+    // Wait for unresolved conflicts to be resolved
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (frontmatter?.hoarder_conflict) {
+      return;
+    }
 
-      // Only update if notes have changed
-      if (currentNotesStr !== originalNotesStr) {
-        console.debug("Syncing notes to Hoarder:", {
-          file: file.path,
-          bookmarkId,
+    // Only update if notes have changed
+    if (currentNotesStr !== originalNotesStr) {
+      // Make sure nobody changed the notes in Hoarder in the meantime
+      const bookmark = await this.fetchBookmark(bookmarkId);
+      const remoteNotes = bookmark?.note || "";
+      if (
+        bookmark &&
+        remoteNotes !== originalNotesStr &&
+        remoteNotes !== currentNotesStr &&
+        remoteNotes !== this.lastSyncedNotes
+      ) {
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+          frontmatter["hoarder_conflict"] = true;
         });
-
-        const updated = await this.updateBookmarkInHoarder(
-          bookmarkId,
-          currentNotesStr,
+        new Notice(
+          "Notes were also changed in Hoarder. Use the Show Note Conflicts command to resolve",
         );
-        if (updated) {
-          // Store these notes as the last synced version
-          this.lastSyncedNotes = currentNotesStr;
+        return;
+      }
 
-          // Schedule frontmatter update for later
-          setTimeout(async () => {
-            try {
-              // Re-read the file to get the latest content
-              const { currentNotes: latestNotes } =
-                await this.extractNotesFromFile(file.path);
-
-              // Only update frontmatter if notes haven't changed since sync
-              if (latestNotes === currentNotesStr) {
-                await this.app.fileManager.processFrontMatter(
-                  file,
-                  (frontmatter) => {
-                    frontmatter["original_note"] = currentNotesStr;
-                  },
-                );
-              }
-            } catch (error) {
-              console.error("Error updating frontmatter:", error);
+      console.debug("Syncing notes to Hoarder:", {
+        file: file.path,
+        bookmarkId,
+      });
+
+      const updated = await this.updateBookmarkInHoarder(bookmarkId, {
+        note: currentNotesStr,
+      });
+      if (updated) {
+        // Store these notes as the last synced version
+        this.lastSyncedNotes = currentNotesStr;
+
+        // Schedule frontmatter update for later
+        setTimeout(async () => {
+          try {
+            // Re-read the file to get the latest content
+            const { currentNotes: latestNotes } =
+              await this.extractNotesFromFile(file.path);
+
+            // Only update frontmatter if notes haven't changed since sync
+            if (latestNotes === currentNotesStr) {
+              await this.app.fileManager.processFrontMatter(
+                file,
+                (frontmatter) => {
+                  frontmatter["original_note"] = currentNotesStr;
+                },
+              );
             }
-          }, 5000); // Wait 5 seconds before updating frontmatter
+          } catch (error) {
+            console.error("Error updating frontmatter:", error);
+          }
+        }, 5000); // Wait 5 seconds before updating frontmatter
 
-          new Notice("Notes synced to Hoarder");
-        }
+        new Notice("Notes synced to Hoarder");
       }
-    } catch (error) {
-      console.error("Error handling file modification:", error);
-      new Notice("Failed to sync notes to Hoarder");
+    }
+  }
+
+  private async syncTagsFromFile(file: TFile, bookmarkId: string) {
+    const tagChanges = this.getLocalTagChanges(file);
+    if (
+      !tagChanges ||
+      (tagChanges.added.length === 0 && tagChanges.removed.length === 0)
+    ) {
+      return;
+    }
+
+    console.debug("Syncing tags to Hoarder:", {
+      file: file.path,
+      bookmarkId,
+      ...tagChanges,
+    });
+
+    const updated = await this.updateBookmarkTagsInHoarder(
+      bookmarkId,
+      tagChanges.added,
+      tagChanges.removed,
+    );
+    if (updated) {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        frontmatter["original_tags"] = tagChanges.tags;
+      });
+      new Notice("Tags synced to Hoarder");
+    } else {
+      new Notice("Failed to sync tags to Hoarder");
+    }
+  }
+
+  private async syncPropertiesFromFile(file: TFile, bookmarkId: string) {
+    const changes = this.getLocalPropertyChanges(file);
+    if (!changes || Object.keys(changes).length === 0) {
+      return;
+    }
+
+    console.debug("Syncing properties to Hoarder:", {
+      file: file.path,
+      bookmarkId,
+      ...changes,
+    });
+
+    const updated = await this.updateBookmarkInHoarder(bookmarkId, changes);
+    if (updated) {
+      await this.saveOriginalProperties(file, changes);
+      new Notice("Properties synced to Hoarder");
+    } else {
+      new Notice("Failed to sync properties to Hoarder");
     }
   }
 }
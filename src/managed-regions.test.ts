@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  hasManagedRegions,
+  parseManagedRegions,
+  replaceManagedRegions,
+  validateManagedRegions,
+} from "./managed-regions";
+
+const region = (name: string, content: string) =>
+  `%% hoarder-start: ${name} %%\n${content}%% hoarder-end: ${name} %%`;
+
+describe("replaceManagedRegions", () => {
+  it("replaces regions and keeps everything around them", () => {
+    const content = `Mine\n${region("content", "old\n")}\nAlso mine\n${region("link", "link\n")}`;
+    const generated = `${region("content", "new\n")}\n${region("link", "new link\n")}`;
+
+    expect(replaceManagedRegions(content, generated)).toBe(
+      `Mine\n${region("content", "new\n")}\nAlso mine\n${region("link", "new link\n")}`,
+    );
+  });
+
+  it("keeps regions the generated content doesn't have", () => {
+    const content = region("custom", "kept\n");
+    expect(replaceManagedRegions(content, region("content", "new\n"))).toBe(
+      content,
+    );
+  });
+
+  it("doesn't bring back regions the user removed", () => {
+    expect(
+      replaceManagedRegions("No regions", region("content", "new\n")),
+    ).toBe("No regions");
+  });
+
+  it("ignores start and end markers with different names", () => {
+    const content = "%% hoarder-start: a %%\nold\n%% hoarder-end: b %%";
+    expect(hasManagedRegions(content)).toBe(false);
+    expect(replaceManagedRegions(content, region("a", "new\n"))).toBe(content);
+  });
+});
+
+describe("parseManagedRegions", () => {
+  it("maps region names to their content", () => {
+    expect(
+      parseManagedRegions(`${region("a", "one\n")}\n${region("b", "two\n")}`),
+    ).toEqual(
+      new Map([
+        ["a", "one\n"],
+        ["b", "two\n"],
+      ]),
+    );
+  });
+
+  it("finds every region after checking for regions", () => {
+    const content = `${region("a", "one\n")}\n${region("b", "two\n")}`;
+    expect(hasManagedRegions(content)).toBe(true);
+    expect(parseManagedRegions(content).size).toBe(2);
+  });
+});
+
+describe("validateManagedRegions", () => {
+  it("accepts matching markers", () => {
+    expect(
+      validateManagedRegions(`${region("a", "")}\n${region("b", "")}`),
+    ).toEqual([]);
+  });
+
+  it.each([
+    ["%% hoarder-start: a %%", ['Region "a" is never closed']],
+    ["%% hoarder-end: a %%", ['Unexpected end of region "a"']],
+    [
+      "%% hoarder-start: a %%\n%% hoarder-end: b %%",
+      ['Unexpected end of region "b"', 'Region "a" is never closed'],
+    ],
+    [
+      `%% hoarder-start: a %%\n${region("b", "")}\n%% hoarder-end: a %%`,
+      ['Region "b" is nested in "a"'],
+    ],
+  ])("reports problems in %j", (source, problems) => {
+    expect(validateManagedRegions(source)).toEqual(problems);
+  });
+});
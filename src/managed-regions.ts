@@ -0,0 +1,72 @@
+/**
+ * Managed regions are the parts of a bookmark note the plugin owns. In the
+ * note body they are wrapped in marker comments:
+ *
+ *   %% hoarder-start: content %%
+ *   ...generated content...
+ *   %% hoarder-end: content %%
+ *
+ * When a note is updated only those regions (and the plugin-owned frontmatter
+ * properties) are replaced, so anything the user adds around them survives.
+ */
+
+const REGION_PATTERN =
+  /%% hoarder-start: ([\w-]+) %%\n?([\s\S]*?)%% hoarder-end: \1 %%/g;
+const MARKER_PATTERN = /%% hoarder-(start|end): ([\w-]+) %%/g;
+
+// Testing with the shared pattern would leave its lastIndex behind for the
+// next matchAll, which starts searching from there
+export function hasManagedRegions(content: string): boolean {
+  return parseManagedRegions(content).size > 0;
+}
+
+// Map each region name to its content
+export function parseManagedRegions(content: string): Map<string, string> {
+  const regions = new Map<string, string>();
+  for (const match of content.matchAll(REGION_PATTERN)) {
+    regions.set(match[1], match[2]);
+  }
+  return regions;
+}
+
+/**
+ * Replace the content of the regions in `content` with the regions of the
+ * same name in `generated`. Regions the user removed stay removed.
+ */
+export function replaceManagedRegions(
+  content: string,
+  generated: string,
+): string {
+  const generatedRegions = parseManagedRegions(generated);
+  return content.replace(REGION_PATTERN, (region, name: string) => {
+    const generatedRegion = generatedRegions.get(name);
+    if (generatedRegion === undefined) {
+      return region;
+    }
+    return `%% hoarder-start: ${name} %%\n${generatedRegion}%% hoarder-end: ${name} %%`;
+  });
+}
+
+// Check that every region marker is closed by a matching end marker
+export function validateManagedRegions(source: string): string[] {
+  const problems: string[] = [];
+  const open: string[] = [];
+
+  for (const [, kind, name] of source.matchAll(MARKER_PATTERN)) {
+    if (kind === "start") {
+      if (open.length > 0) {
+        problems.push(`Region "${name}" is nested in "${open[0]}"`);
+      }
+      open.push(name);
+    } else if (open[open.length - 1] === name) {
+      open.pop();
+    } else {
+      problems.push(`Unexpected end of region "${name}"`);
+    }
+  }
+  for (const name of open) {
+    problems.push(`Region "${name}" is never closed`);
+  }
+
+  return problems;
+}
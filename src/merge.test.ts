@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { mergeThreeWay } from "./merge";
+
+describe("mergeThreeWay", () => {
+  it("takes the side that changed", () => {
+    expect(mergeThreeWay("a", "b", "a")).toEqual({
+      merged: "b",
+      conflict: false,
+    });
+    expect(mergeThreeWay("a", "a", "b")).toEqual({
+      merged: "b",
+      conflict: false,
+    });
+    expect(mergeThreeWay("a", "b", "b")).toEqual({
+      merged: "b",
+      conflict: false,
+    });
+  });
+
+  it("combines changes to different lines", () => {
+    expect(
+      mergeThreeWay("one\ntwo\nthree", "ONE\ntwo\nthree", "one\ntwo\nTHREE"),
+    ).toEqual({ merged: "ONE\ntwo\nTHREE", conflict: false });
+  });
+
+  it("combines lines added on both sides", () => {
+    expect(
+      mergeThreeWay("one\ntwo", "zero\none\ntwo", "one\ntwo\nthree"),
+    ).toEqual({ merged: "zero\none\ntwo\nthree", conflict: false });
+  });
+
+  it("keeps overlapping changes between conflict markers", () => {
+    expect(
+      mergeThreeWay(
+        "one\ntwo\nthree",
+        "one\nlocal\nthree",
+        "one\nremote\nthree",
+      ),
+    ).toEqual({
+      merged: [
+        "one",
+        "<<<<<<< Obsidian",
+        "local",
+        "=======",
+        "remote",
+        ">>>>>>> Hoarder",
+        "three",
+      ].join("\n"),
+      conflict: true,
+    });
+  });
+
+  it("reports a conflict when one side deletes a line the other changes", () => {
+    expect(mergeThreeWay("one\ntwo", "one", "one\nTWO").conflict).toBe(true);
+  });
+});
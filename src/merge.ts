@@ -0,0 +1,130 @@
+export interface MergeResult {
+  merged: string;
+  conflict: boolean;
+}
+
+// Pairs of [baseIndex, otherIndex] for the longest common subsequence
+function matchLines(base: string[], other: string[]): Map<number, number> {
+  const lengths: number[][] = Array.from({ length: base.length + 1 }, () =>
+    new Array(other.length + 1).fill(0),
+  );
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = other.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        base[i] === other[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < other.length) {
+    if (base[i] === other[j]) {
+      matches.set(i, j);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Line-level three-way merge of two versions of a text that both started
+ * from `base`. Changes made on one side only are combined; overlapping
+ * changes are kept between conflict markers and reported as a conflict.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  remote: string,
+): MergeResult {
+  if (local === remote || remote === base) {
+    return { merged: local, conflict: false };
+  }
+  if (local === base) {
+    return { merged: remote, conflict: false };
+  }
+
+  const baseLines = base.split("\n");
+  const localLines = local.split("\n");
+  const remoteLines = remote.split("\n");
+  const localMatches = matchLines(baseLines, localLines);
+  const remoteMatches = matchLines(baseLines, remoteLines);
+
+  const merged: string[] = [];
+  let conflict = false;
+
+  const mergeChunk = (
+    baseChunk: string[],
+    localChunk: string[],
+    remoteChunk: string[],
+  ) => {
+    if (sameLines(localChunk, remoteChunk)) {
+      merged.push(...localChunk);
+    } else if (sameLines(localChunk, baseChunk)) {
+      merged.push(...remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk)) {
+      merged.push(...localChunk);
+    } else {
+      conflict = true;
+      merged.push(
+        "<<<<<<< Obsidian",
+        ...localChunk,
+        "=======",
+        ...remoteChunk,
+        ">>>>>>> Hoarder",
+      );
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  let k = 0;
+  while (true) {
+    // Find the next base line both sides still have
+    let o = i;
+    while (
+      o < baseLines.length &&
+      !(
+        localMatches.has(o) &&
+        remoteMatches.has(o) &&
+        localMatches.get(o)! >= j &&
+        remoteMatches.get(o)! >= k
+      )
+    ) {
+      o++;
+    }
+
+    if (o === baseLines.length) {
+      mergeChunk(baseLines.slice(i), localLines.slice(j), remoteLines.slice(k));
+      break;
+    }
+
+    const localIndex = localMatches.get(o)!;
+    const remoteIndex = remoteMatches.get(o)!;
+    if (o > i || localIndex > j || remoteIndex > k) {
+      mergeChunk(
+        baseLines.slice(i, o),
+        localLines.slice(j, localIndex),
+        remoteLines.slice(k, remoteIndex),
+      );
+    }
+
+    merged.push(baseLines[o]);
+    i = o + 1;
+    j = localIndex + 1;
+    k = remoteIndex + 1;
+  }
+
+  return { merged: merged.join("\n"), conflict };
+}
@@ -0,0 +1,65 @@
+import type { SyncCheckpoint, SyncedList } from "./settings";
+
+/**
+ * A Hoarder account synced into the vault. The plugin settings are the
+ * default profile; additional profiles connect other servers or accounts,
+ * each with its own filters, folder, interval and sync state.
+ */
+export interface SyncProfile {
+  // Empty for the default profile
+  profileId: string;
+  profileName: string;
+  apiKey: string;
+  apiBaseUrl: string;
+  apiPath: string;
+  syncFolder: string;
+  syncIntervalMinutes: number;
+  excludeArchived: boolean;
+  onlyFavorites: boolean;
+  excludedTags: string[];
+  syncedLists: SyncedList[];
+  lastSyncTimestamp: number;
+  // When a sync last listed every bookmark
+  lastFullListingTimestamp: number;
+  bookmarkFingerprints: Record<string, string>;
+  syncCheckpoint: SyncCheckpoint | null;
+  appliedFileNameSignature: string;
+  appliedFolderRulesSignature: string;
+}
+
+/**
+ * Bookmarks of additional profiles are known as `<profile id>:<bookmark id>`
+ * everywhere in the plugin, including the `bookmark_id` frontmatter property,
+ * so every note can be traced back to its server. Bookmarks of the default
+ * profile keep their plain ids.
+ */
+export function getBookmarkKey(profileId: string, bookmarkId: string): string {
+  return profileId ? `${profileId}:${bookmarkId}` : bookmarkId;
+}
+
+export function parseBookmarkKey(key: string): {
+  profileId: string;
+  bookmarkId: string;
+} {
+  const separator = key.indexOf(":");
+  return separator === -1
+    ? { profileId: "", bookmarkId: key }
+    : {
+        profileId: key.slice(0, separator),
+        bookmarkId: key.slice(separator + 1),
+      };
+}
+
+// A profile id derived from its name, unique among the existing ids
+export function createProfileId(name: string, existingIds: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "profile";
+  let profileId = base;
+  for (let i = 2; existingIds.includes(profileId); i++) {
+    profileId = `${base}-${i}`;
+  }
+  return profileId;
+}
@@ -0,0 +1,86 @@
+import { App, Modal, Setting } from "obsidian";
+
+export interface QuickAddInput {
+  // A URL creates a link bookmark, anything else a text bookmark
+  value: string;
+  tags: string[];
+  note: string;
+}
+
+export class QuickAddModal extends Modal {
+  private input: QuickAddInput;
+
+  constructor(
+    app: App,
+    initialValue: string,
+    private onSubmit: (input: QuickAddInput) => Promise<void>,
+  ) {
+    super(app);
+    this.input = { value: initialValue, tags: [], note: "" };
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText("Add bookmark to Hoarder");
+
+    new Setting(contentEl)
+      .setName("URL or text")
+      .addTextArea((text) => {
+        text
+          .setPlaceholder("https://example.com")
+          .setValue(this.input.value)
+          .onChange((value) => {
+            this.input.value = value;
+          });
+        text.inputEl.addClass("hoarder-wide-input");
+        text.inputEl.focus();
+        return text;
+      });
+
+    new Setting(contentEl)
+      .setName("Tags")
+      .setDesc("Comma-separated")
+      .addText((text) =>
+        text
+          .setPlaceholder("reading, research")
+          .onChange((value) => {
+            this.input.tags = value
+              .split(",")
+              .map((tag) => tag.trim())
+              .filter((tag) => tag.length > 0);
+          })
+          .inputEl.addClass("hoarder-wide-input"),
+      );
+
+    new Setting(contentEl).setName("Note").addTextArea((text) => {
+      text.onChange((value) => {
+        this.input.note = value;
+      });
+      text.inputEl.addClass("hoarder-wide-input");
+      return text;
+    });
+
+    new Setting(contentEl).addButton((button) =>
+      button
+        .setButtonText("Add")
+        .setCta()
+        .onClick(async () => {
+          if (!this.input.value.trim()) {
+            return;
+          }
+          button.setDisabled(true);
+          await this.onSubmit({
+            ...this.input,
+            value: this.input.value.trim(),
+            note: this.input.note.trim(),
+          });
+          this.close();
+        }),
+    );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,75 @@
+import { Readability } from "@mozilla/readability";
+
+// Attributes holding URLs that need to be absolute once the page is in a note
+const URL_ATTRIBUTES: [string, string][] = [
+  ["a", "href"],
+  ["img", "src"],
+  ["source", "src"],
+  ["video", "src"],
+  ["audio", "src"],
+];
+
+// Make the URLs in the page absolute so links and images keep working
+function rewriteRelativeUrls(doc: Document, baseUrl: string) {
+  // Lazy-loaded images only have their real source in a data attribute
+  doc.querySelectorAll("img[data-src]").forEach((img) => {
+    if (
+      !img.getAttribute("src") ||
+      img.getAttribute("src")?.startsWith("data:")
+    ) {
+      img.setAttribute("src", img.getAttribute("data-src") ?? "");
+    }
+  });
+
+  for (const [tag, attribute] of URL_ATTRIBUTES) {
+    doc.querySelectorAll(`${tag}[${attribute}]`).forEach((el) => {
+      const value = el.getAttribute(attribute) ?? "";
+      if (value.startsWith("#") || /^[a-z]+:/i.test(value)) return;
+      try {
+        el.setAttribute(attribute, new URL(value, baseUrl).href);
+      } catch {
+        // Leave URLs that can't be resolved as they are
+      }
+    });
+  }
+
+  // Turndown only uses src, and srcset may still hold relative URLs
+  doc.querySelectorAll("img[srcset]").forEach((img) => {
+    img.removeAttribute("srcset");
+  });
+}
+
+/**
+ * Extract the main article from a page with Readability, dropping
+ * navigation, ads and other clutter. Returns the page body if no article
+ * could be found.
+ */
+export function extractReadableContent(
+  html: string,
+  baseUrl?: string,
+): HTMLElement {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  if (baseUrl) {
+    rewriteRelativeUrls(doc, baseUrl);
+  }
+  const fallback = doc.body.innerHTML;
+
+  // Readability changes the document it parses. The article is parsed into
+  // a new inert document rather than the app's, so nothing in it can run.
+  const article = new Readability(doc).parse();
+  return new DOMParser().parseFromString(
+    article?.content || fallback,
+    "text/html",
+  ).body;
+}
+
+export function htmlToMarkdown(content: string | HTMLElement): string {
+  const TurndownService = require("turndown");
+  const turndownService = new TurndownService({
+    headingStyle: "atx",
+    hr: "---",
+    bulletListMarker: "-",
+    codeBlockStyle: "fenced",
+  });
+  return turndownService.turndown(content);
+}
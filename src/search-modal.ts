@@ -0,0 +1,79 @@
+import { App, SuggestModal, TFile } from "obsidian";
+import type { HoarderBookmark } from "./hoarder-api";
+
+// Wait for the user to stop typing before asking the server
+const SEARCH_DELAY_MS = 300;
+
+export interface SearchResult {
+  id: string;
+  title: string;
+  url: string | null;
+  file: TFile | null;
+  // Only set for results that came from Hoarder
+  bookmark: HoarderBookmark | null;
+}
+
+export interface SearchResults {
+  results: SearchResult[];
+  // Whether Hoarder couldn't be searched, so only synced notes were
+  offline: boolean;
+}
+
+export class HoarderSearchModal extends SuggestModal<SearchResult> {
+  private latestQuery = "";
+
+  constructor(
+    app: App,
+    private search: (query: string) => Promise<SearchResults>,
+    private onChoose: (result: SearchResult) => void,
+  ) {
+    super(app);
+    this.setPlaceholder("Search Hoarder");
+    this.emptyStateText = "No bookmarks found";
+  }
+
+  async getSuggestions(query: string): Promise<SearchResult[]> {
+    this.latestQuery = query;
+    if (!query.trim()) {
+      return [];
+    }
+
+    await sleep(SEARCH_DELAY_MS);
+    if (query !== this.latestQuery) {
+      return [];
+    }
+
+    const { results, offline } = await this.search(query.trim());
+    // A newer query may have been typed while the server answered
+    if (query !== this.latestQuery) {
+      return [];
+    }
+    this.emptyStateText = offline
+      ? "Hoarder can't be searched and no synced notes match"
+      : "No bookmarks found";
+    this.setInstructions(
+      offline
+        ? [
+            {
+              command: "Hoarder unavailable",
+              purpose: "searching synced notes",
+            },
+          ]
+        : [],
+    );
+    return results;
+  }
+
+  renderSuggestion(result: SearchResult, el: HTMLElement) {
+    el.createDiv({ text: result.title });
+    el.createEl("small", {
+      text: [result.url, result.file ? null : "not synced"]
+        .filter(Boolean)
+        .join(" · "),
+    });
+  }
+
+  onChooseSuggestion(result: SearchResult) {
+    this.onChoose(result);
+  }
+}
@@ -6,41 +6,170 @@ import {
   TFolder,
   AbstractInputSuggest,
   TAbstractFile,
+  TFile,
+  setIcon,
 } from "obsidian";
-import HoarderPlugin from "./main";
+import HoarderPlugin, { SyncProgress } from "./main";
+import type { HoarderList } from "./hoarder-api";
+import { validateTemplate } from "./template";
+import { validateFileNamePattern } from "./file-names";
+import { FolderRule, FolderRuleType, FOLDER_RULE_TYPES } from "./folder-rules";
+import { SyncLogEntry } from "./sync-log";
+import { NETWORK_TRANSPORTS, NetworkTransport } from "./transports";
+import { SyncProfile, createProfileId } from "./profiles";
+import {
+  ConnectionCheck,
+  getServerSettingProblems,
+  testConnection,
+} from "./connection-test";
+
+export type MissingBookmarkAction = "ignore" | "mark" | "move" | "trash";
+
+export interface SyncedList {
+  id: string;
+  name: string;
+}
 
-export interface HoarderSettings {
-  apiKey: string;
-  apiBaseUrl: string;
-  apiPath: string;
-  syncFolder: string;
+// Where an interrupted sync stopped, so the next one can continue from there
+export interface SyncCheckpoint {
+  timestamp: number;
+  // The sync settings it was taken with, see HoarderPlugin.runSync
+  signature: string;
+  incremental: boolean;
+  sourceIndex: number;
+  cursor: string | null;
+  seenBookmarkIds: string[];
+  fingerprints: Record<string, string>;
+}
+
+// The settings are the default profile, see SyncProfile
+export interface HoarderSettings extends SyncProfile {
+  profiles: SyncProfile[];
+  // Never given to a new profile, whose notes would be mixed up with the
+  // notes the removed profile left behind
+  removedProfileIds: string[];
+  networkTransport: NetworkTransport;
+  requestTimeoutSeconds: number;
+  maxRetries: number;
+  fileNamePattern: string;
+  fileNameMaxLength: number;
+  keepSpacesInFileNames: boolean;
+  folderRules: FolderRule[];
+  bookmarkFolders: Record<string, string>;
+  // The title each bookmark's note was last named after
+  bookmarkTitles: Record<string, string>;
+  // The frontmatter properties last generated for each bookmark's note
+  bookmarkProperties: Record<string, string[]>;
   attachmentsFolder: string;
-  syncIntervalMinutes: number;
-  lastSyncTimestamp: number;
+  downloadScreenshots: boolean;
+  downloadPdfs: boolean;
+  downloadArchives: boolean;
+  downloadVideos: boolean;
+  maxAssetSizeMB: number;
+  maxConcurrentDownloads: number;
+  incrementalSync: boolean;
+  syncLog: SyncLogEntry[];
   updateExistingFiles: boolean;
-  excludeArchived: boolean;
-  onlyFavorites: boolean;
+  syncLists: boolean;
+  createListNotes: boolean;
+  listNotesFolder: string;
   syncNotesToHoarder: boolean;
-  excludedTags: string[];
+  syncTagsToHoarder: boolean;
+  syncPropertiesToHoarder: boolean;
+  replaceLinksWithNotes: boolean;
   importContent: boolean;
+  downloadContentImages: boolean;
+  templateFile: string;
+  missingBookmarkAction: MissingBookmarkAction;
+  missingBookmarksFolder: string;
 }
 
+const DEFAULT_FILE_NAME_PATTERN = "{{date}}-{{title}}";
+const DEFAULT_FILE_NAME_MAX_LENGTH = 47;
+
 export const DEFAULT_SETTINGS: HoarderSettings = {
+  profileId: "",
+  profileName: "Default",
+  profiles: [],
+  removedProfileIds: [],
   apiKey: "",
   apiBaseUrl: "https://api.hoarder.app",
   apiPath: "/api/v1",
+  networkTransport: "obsidian",
+  requestTimeoutSeconds: 30,
+  maxRetries: 3,
   syncFolder: "Hoarder",
+  fileNamePattern: DEFAULT_FILE_NAME_PATTERN,
+  fileNameMaxLength: DEFAULT_FILE_NAME_MAX_LENGTH,
+  keepSpacesInFileNames: false,
+  // Filled in from the current settings on load, see HoarderPlugin.loadSettings
+  appliedFileNameSignature: "",
+  folderRules: [],
+  appliedFolderRulesSignature: "",
+  bookmarkFolders: {},
+  bookmarkTitles: {},
+  bookmarkProperties: {},
   attachmentsFolder: "Hoarder/attachments",
+  downloadScreenshots: false,
+  downloadPdfs: false,
+  downloadArchives: false,
+  downloadVideos: false,
+  maxAssetSizeMB: 50,
+  maxConcurrentDownloads: 3,
   syncIntervalMinutes: 60,
   lastSyncTimestamp: 0,
+  lastFullListingTimestamp: 0,
+  incrementalSync: true,
+  bookmarkFingerprints: {},
+  syncCheckpoint: null,
+  syncLog: [],
   updateExistingFiles: false,
   excludeArchived: true,
   onlyFavorites: false,
+  syncedLists: [],
+  syncLists: false,
+  createListNotes: false,
+  listNotesFolder: "Hoarder/Lists",
   syncNotesToHoarder: true,
+  syncTagsToHoarder: true,
+  syncPropertiesToHoarder: true,
+  replaceLinksWithNotes: false,
   excludedTags: [],
   importContent: false,
+  downloadContentImages: false,
+  templateFile: "",
+  missingBookmarkAction: "mark",
+  missingBookmarksFolder: "Hoarder/archive",
 };
 
+// A new profile with the default settings
+export function createSyncProfile(
+  profileName: string,
+  existingIds: string[],
+): SyncProfile {
+  const profileId = createProfileId(profileName, existingIds);
+  const syncFolder = `${DEFAULT_SETTINGS.syncFolder}/${profileName}`;
+  return {
+    profileId,
+    profileName,
+    apiKey: "",
+    apiBaseUrl: DEFAULT_SETTINGS.apiBaseUrl,
+    apiPath: DEFAULT_SETTINGS.apiPath,
+    syncFolder,
+    syncIntervalMinutes: DEFAULT_SETTINGS.syncIntervalMinutes,
+    excludeArchived: DEFAULT_SETTINGS.excludeArchived,
+    onlyFavorites: DEFAULT_SETTINGS.onlyFavorites,
+    excludedTags: [],
+    syncedLists: [],
+    lastSyncTimestamp: 0,
+    lastFullListingTimestamp: 0,
+    bookmarkFingerprints: {},
+    syncCheckpoint: null,
+    appliedFileNameSignature: "",
+    appliedFolderRulesSignature: "",
+  };
+}
+
 class FolderSuggest extends AbstractInputSuggest<TFolder> {
   private folders: TFolder[];
   private inputEl: HTMLInputElement;
@@ -79,18 +208,96 @@ class FolderSuggest extends AbstractInputSuggest<TFolder> {
   }
 }
 
+class ListSuggest extends AbstractInputSuggest<HoarderList> {
+  private lists: HoarderList[] = [];
+  private inputEl: HTMLInputElement;
+
+  constructor(
+    app: App,
+    inputEl: HTMLInputElement,
+    private plugin: HoarderPlugin,
+    private profile: SyncProfile,
+    private onSelectList: (list: HoarderList) => void,
+  ) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
+    this.plugin
+      .fetchLists(profile)
+      .then((lists) => {
+        this.lists = lists.sort((a, b) => a.name.localeCompare(b.name));
+      })
+      .catch((error) => {
+        console.error("Error fetching Hoarder lists:", error);
+      });
+  }
+
+  getSuggestions(inputStr: string): HoarderList[] {
+    const lowerCaseInputStr = inputStr.toLowerCase();
+    const selectedIds = this.profile.syncedLists.map((list) => list.id);
+    return this.lists.filter(
+      (list) =>
+        !selectedIds.includes(list.id) &&
+        list.name.toLowerCase().contains(lowerCaseInputStr),
+    );
+  }
+
+  renderSuggestion(list: HoarderList, el: HTMLElement): void {
+    el.setText(list.icon ? `${list.icon} ${list.name}` : list.name);
+  }
+
+  selectSuggestion(list: HoarderList): void {
+    this.inputEl.value = "";
+    this.onSelectList(list);
+    this.close();
+  }
+}
+
+class FileSuggest extends AbstractInputSuggest<TFile> {
+  private inputEl: HTMLInputElement;
+
+  constructor(app: App, inputEl: HTMLInputElement) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
+  }
+
+  getSuggestions(inputStr: string): TFile[] {
+    const lowerCaseInputStr = inputStr.toLowerCase();
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.toLowerCase().contains(lowerCaseInputStr))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  renderSuggestion(file: TFile, el: HTMLElement): void {
+    el.setText(file.path);
+  }
+
+  selectSuggestion(file: TFile): void {
+    this.inputEl.value = file.path;
+    this.inputEl.trigger("input");
+    this.close();
+  }
+}
+
 export class HoarderSettingTab extends PluginSettingTab {
   plugin: HoarderPlugin;
   syncButton: any;
+  // The profile whose settings are shown
+  private selectedProfileId = "";
 
   constructor(app: App, plugin: HoarderPlugin) {
     super(app, plugin);
     this.plugin = plugin;
   }
 
-  onunload() {
-    // Clean up event listener
+  hide() {
+    this.unsubscribeFromSync();
+  }
+
+  // display() subscribes again on every render
+  private unsubscribeFromSync() {
     this.plugin.events.off("sync-state-change", this.updateSyncButton);
+    this.plugin.events.off("sync-progress", this.updateSyncProgress);
   }
 
   private updateSyncButton = (isSyncing: boolean) => {
@@ -100,76 +307,321 @@ export class HoarderSettingTab extends PluginSettingTab {
     }
   };
 
+  private updateSyncProgress = (progress: SyncProgress) => {
+    if (this.syncButton) {
+      this.syncButton.setButtonText(
+        `Syncing... ${progress.processed}/${progress.fetched}`,
+      );
+    }
+  };
+
+  private displayFolderRules(containerEl: HTMLElement) {
+    const rules = this.plugin.settings.folderRules;
+
+    new Setting(containerEl)
+      .setName("Folder rules")
+      .setDesc(
+        'Put bookmarks in other folders by tag, list, content type (link, text, asset, image, pdf) or domain. The first matching rule wins. Use "*" to match anything and {{match}} in the folder to insert the matched value. Notes are moved when their rule changes',
+      )
+      .addButton((button) =>
+        button.setButtonText("Add rule").onClick(async () => {
+          rules.push({ type: "tag", value: "", folder: "" });
+          await this.plugin.saveSettings();
+          this.display();
+        }),
+      );
+
+    rules.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setClass("hoarder-folder-rule")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(FOLDER_RULE_TYPES)
+            .setValue(rule.type)
+            .onChange(async (value: FolderRuleType) => {
+              rule.type = value;
+              await this.plugin.saveSettings();
+            }),
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Value, e.g. research")
+            .setValue(rule.value)
+            .onChange(async (value) => {
+              rule.value = value;
+              await this.plugin.saveSettings();
+            }),
+        )
+        .addText((text) => {
+          text
+            .setPlaceholder("Folder, e.g. Research/Sources")
+            .setValue(rule.folder)
+            .onChange(async (value) => {
+              rule.folder = value;
+              await this.plugin.saveSettings();
+            });
+
+          new FolderSuggest(this.app, text.inputEl);
+          return text;
+        })
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              rules.splice(index - 1, 0, ...rules.splice(index, 1));
+              await this.plugin.saveSettings();
+              this.display();
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === rules.length - 1)
+            .onClick(async () => {
+              rules.splice(index + 1, 0, ...rules.splice(index, 1));
+              await this.plugin.saveSettings();
+              this.display();
+            }),
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Remove rule")
+            .onClick(async () => {
+              rules.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            }),
+        );
+    });
+  }
+
+  // List validation problems below a setting
+  private showValidation(
+    statusEl: HTMLElement,
+    problems: string[],
+    validText: string = "",
+  ) {
+    statusEl.empty();
+    statusEl.toggleClass("hoarder-validation-error", problems.length > 0);
+    if (problems.length > 0) {
+      problems.forEach((problem) => statusEl.createDiv({ text: problem }));
+    } else {
+      statusEl.setText(validText);
+    }
+  }
+
+  // List the results of a connection test below its setting
+  private showConnectionChecks(
+    checksEl: HTMLElement,
+    checks: ConnectionCheck[],
+  ) {
+    const icons = { ok: "check", warning: "alert-triangle", error: "x-circle" };
+    checksEl.empty();
+    for (const check of checks) {
+      const checkEl = checksEl.createDiv({
+        cls: `hoarder-connection-check hoarder-connection-${check.status}`,
+      });
+      setIcon(checkEl.createSpan(), icons[check.status]);
+      checkEl.createSpan({ text: check.message });
+    }
+  }
+
+  // Show whether the configured note template can be used
+  private async validateTemplateFile(statusEl: HTMLElement) {
+    const templatePath = this.plugin.settings.templateFile;
+    if (!templatePath) {
+      this.showValidation(statusEl, []);
+      return;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(templatePath);
+    if (!(file instanceof TFile)) {
+      this.showValidation(statusEl, ["Template file not found"]);
+      return;
+    }
+
+    const problems = validateTemplate(await this.app.vault.cachedRead(file));
+    this.showValidation(statusEl, problems, "Template is valid");
+  }
+
   display(): void {
     const { containerEl } = this;
     containerEl.empty();
+    this.unsubscribeFromSync();
+
+    const profile =
+      this.plugin.getProfile(this.selectedProfileId) ?? this.plugin.settings;
+    this.selectedProfileId = profile.profileId;
+
+    new Setting(containerEl).setName("Profiles").setHeading();
+    const profileSetting = new Setting(containerEl)
+      .setName("Profile")
+      .setDesc(
+        "Each profile syncs a Hoarder account or server into its own folder. The settings below belong to the selected profile; those under Shared by all profiles apply to every profile",
+      )
+      .addDropdown((dropdown) => {
+        for (const { profileId, profileName } of this.plugin.getProfiles()) {
+          dropdown.addOption(profileId, profileName);
+        }
+        dropdown.setValue(profile.profileId).onChange((value) => {
+          this.selectedProfileId = value;
+          this.display();
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Add profile").onClick(async () => {
+          const newProfile = createSyncProfile(
+            `Profile ${this.plugin.settings.profiles.length + 2}`,
+            [
+              ...this.plugin.getProfiles().map(({ profileId }) => profileId),
+              ...this.plugin.settings.removedProfileIds,
+            ],
+          );
+          this.plugin.settings.profiles.push(newProfile);
+          await this.plugin.saveSettings();
+          this.plugin.startPeriodicSync();
+          this.selectedProfileId = newProfile.profileId;
+          this.display();
+        }),
+      );
+    // The default profile holds the notes synced before there were profiles
+    if (profile.profileId) {
+      profileSetting.addButton((button) =>
+        button
+          .setButtonText("Remove profile")
+          .setWarning()
+          .onClick(async () => {
+            await this.plugin.removeProfile(profile.profileId);
+            this.selectedProfileId = "";
+            this.display();
+          }),
+      );
+    }
+
+    // The settings of the selected profile, set apart from the shared ones
+    this.displayProfile(
+      containerEl.createDiv({ cls: "hoarder-profile-settings" }),
+      profile,
+    );
+
+    new Setting(containerEl).setName("Shared by all profiles").setHeading();
 
     new Setting(containerEl)
-      .setName("Api key")
-      .setDesc("Your Hoarder API key")
+      .setName("Network requests")
+      .setDesc(
+        "How to reach Hoarder. Requests sent by Obsidian work without CORS setup on the server; browser fetch needs the server to allow Obsidian",
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(NETWORK_TRANSPORTS)
+          .setValue(this.plugin.settings.networkTransport)
+          .onChange(async (value: NetworkTransport) => {
+            this.plugin.settings.networkTransport = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Request timeout")
+      .setDesc(
+        "How long to wait for Hoarder to answer a request (in seconds, 0 to wait forever)",
+      )
       .addText((text) =>
         text
-          .setPlaceholder("Enter your API key")
-          .setValue(this.plugin.settings.apiKey)
+          .setPlaceholder("30")
+          .setValue(String(this.plugin.settings.requestTimeoutSeconds))
           .onChange(async (value) => {
-            this.plugin.settings.apiKey = value;
-            await this.plugin.saveSettings();
+            const numValue = Number(value);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.requestTimeoutSeconds = numValue;
+              await this.plugin.saveSettings();
+            }
           })
-          .inputEl.addClass("hoarder-wide-input"),
+          .inputEl.addClass("hoarder-small-input"),
       );
 
     new Setting(containerEl)
-      .setName("API Base URL")
+      .setName("Retries")
       .setDesc(
-        "Base URL for Hoarder API (default: https://api.hoarder.app)",
+        "How often to retry requests that failed because of a network error, a server error or rate limiting",
       )
       .addText((text) =>
         text
-          .setPlaceholder("Enter API base URL")
-          .setValue(this.plugin.settings.apiBaseUrl)
+          .setPlaceholder("3")
+          .setValue(String(this.plugin.settings.maxRetries))
           .onChange(async (value) => {
-            this.plugin.settings.apiBaseUrl = value;
-            await this.plugin.saveSettings();
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.maxRetries = numValue;
+              await this.plugin.saveSettings();
+            }
           })
-          .inputEl.addClass("hoarder-wide-input"),
+          .inputEl.addClass("hoarder-small-input"),
       );
 
-    new Setting(containerEl)
-      .setName("API Path")
+    const fileNameSetting = new Setting(containerEl)
+      .setName("File name pattern")
       .setDesc(
-        "API endpoint path (default: /api/v1)",
+        "Pattern for note paths inside the sync folder. Use {{title}}, {{date}} or {{date:YYYY/MM}}, {{id}}, {{domain}} and {{type}}; slashes create subfolders. Existing notes are moved on the next sync",
       )
       .addText((text) =>
         text
-          .setPlaceholder("Enter API path")
-          .setValue(this.plugin.settings.apiPath)
+          .setPlaceholder(DEFAULT_FILE_NAME_PATTERN)
+          .setValue(this.plugin.settings.fileNamePattern)
           .onChange(async (value) => {
-            this.plugin.settings.apiPath = value;
-            await this.plugin.saveSettings();
+            const problems = validateFileNamePattern(value);
+            this.showValidation(fileNameStatusEl, problems);
+            if (problems.length === 0) {
+              this.plugin.settings.fileNamePattern = value;
+              await this.plugin.saveSettings();
+            }
           })
           .inputEl.addClass("hoarder-medium-input"),
       );
+    const fileNameStatusEl = fileNameSetting.descEl.createDiv({
+      cls: "hoarder-validation-status",
+    });
 
     new Setting(containerEl)
-      .setName("Sync folder")
-      .setDesc("Folder where bookmarks will be saved")
-      .addText((text) => {
+      .setName("Maximum file name length")
+      .setDesc("Titles are shortened to keep file names within this length")
+      .addText((text) =>
         text
-          .setPlaceholder("Example: folder1/folder2")
-          .setValue(this.plugin.settings.syncFolder)
+          .setPlaceholder(String(DEFAULT_FILE_NAME_MAX_LENGTH))
+          .setValue(String(this.plugin.settings.fileNameMaxLength))
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue > 0) {
+              this.plugin.settings.fileNameMaxLength = numValue;
+              await this.plugin.saveSettings();
+            }
+          })
+          .inputEl.addClass("hoarder-small-input"),
+      );
+
+    new Setting(containerEl)
+      .setName("Keep spaces in file names")
+      .setDesc("Keep spaces in titles instead of replacing them with dashes")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.keepSpacesInFileNames)
           .onChange(async (value) => {
-            this.plugin.settings.syncFolder = value;
+            this.plugin.settings.keepSpacesInFileNames = value;
             await this.plugin.saveSettings();
-          });
+          }),
+      );
 
-        text.inputEl.addClass("hoarder-medium-input");
-        new FolderSuggest(this.app, text.inputEl);
-        return text;
-      });
+    this.displayFolderRules(containerEl);
 
     new Setting(containerEl)
       .setName("Attachments folder")
-      .setDesc("Folder where bookmark images will be saved")
+      .setDesc(
+        "Folder where bookmark images and other assets will be saved",
+      )
       .addText((text) => {
         text
           .setPlaceholder("Example: folder1/attachments")
@@ -185,23 +637,107 @@ export class HoarderSettingTab extends PluginSettingTab {
       });
 
     new Setting(containerEl)
-      .setName("Sync interval")
-      .setDesc("How often to sync (in minutes)")
+      .setName("Download screenshots")
+      .setDesc(
+        "Save the screenshots Hoarder takes of links and embed them in notes",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadScreenshots)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadScreenshots = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Download PDFs")
+      .setDesc("Save PDF bookmarks and embed them in notes")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadPdfs)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadPdfs = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Download archives")
+      .setDesc("Save full page archives and embed them in notes")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadArchives)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadArchives = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Download videos")
+      .setDesc(
+        "Save videos Hoarder downloaded for links and embed them in notes",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadVideos)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadVideos = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Maximum asset size")
+      .setDesc(
+        "Assets larger than this are not downloaded (in MB, 0 for no limit)",
+      )
       .addText((text) =>
         text
-          .setPlaceholder("60")
-          .setValue(String(this.plugin.settings.syncIntervalMinutes))
+          .setPlaceholder("50")
+          .setValue(String(this.plugin.settings.maxAssetSizeMB))
+          .onChange(async (value) => {
+            const numValue = Number(value);
+            if (!isNaN(numValue) && numValue >= 0) {
+              this.plugin.settings.maxAssetSizeMB = numValue;
+              await this.plugin.saveSettings();
+            }
+          })
+          .inputEl.addClass("hoarder-small-input"),
+      );
+
+    new Setting(containerEl)
+      .setName("Parallel downloads")
+      .setDesc("How many assets and images to download at the same time")
+      .addText((text) =>
+        text
+          .setPlaceholder("3")
+          .setValue(String(this.plugin.settings.maxConcurrentDownloads))
           .onChange(async (value) => {
             const numValue = parseInt(value);
             if (!isNaN(numValue) && numValue > 0) {
-              this.plugin.settings.syncIntervalMinutes = numValue;
+              this.plugin.settings.maxConcurrentDownloads = numValue;
               await this.plugin.saveSettings();
-              this.plugin.startPeriodicSync();
             }
           })
           .inputEl.addClass("hoarder-small-input"),
       );
 
+    new Setting(containerEl)
+      .setName("Incremental sync")
+      .setDesc(
+        "Only process bookmarks that changed since the last sync. Use the full resync command to process everything again",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.incrementalSync)
+          .onChange(async (value) => {
+            this.plugin.settings.incrementalSync = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(containerEl)
       .setName("Update existing files")
       .setDesc("Whether to update or skip existing bookmark files")
@@ -215,29 +751,48 @@ export class HoarderSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Exclude archived")
-      .setDesc("Exclude archived bookmarks from sync")
+      .setName("Sync lists")
+      .setDesc(
+        "Write the lists each bookmark belongs to into its frontmatter. This fetches the bookmarks of every list on each sync",
+      )
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.excludeArchived)
+          .setValue(this.plugin.settings.syncLists)
           .onChange(async (value) => {
-            this.plugin.settings.excludeArchived = value;
+            this.plugin.settings.syncLists = value;
             await this.plugin.saveSettings();
           }),
       );
 
     new Setting(containerEl)
-      .setName("Only favorites")
-      .setDesc("Only sync favorited bookmarks")
+      .setName("Create list notes")
+      .setDesc("Create a note per Hoarder list linking to its bookmarks")
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.onlyFavorites)
+          .setValue(this.plugin.settings.createListNotes)
           .onChange(async (value) => {
-            this.plugin.settings.onlyFavorites = value;
+            this.plugin.settings.createListNotes = value;
             await this.plugin.saveSettings();
           }),
       );
 
+    new Setting(containerEl)
+      .setName("List notes folder")
+      .setDesc("Folder where list notes will be saved")
+      .addText((text) => {
+        text
+          .setPlaceholder("Example: folder1/lists")
+          .setValue(this.plugin.settings.listNotesFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.listNotesFolder = value;
+            await this.plugin.saveSettings();
+          });
+
+        text.inputEl.addClass("hoarder-medium-input");
+        new FolderSuggest(this.app, text.inputEl);
+        return text;
+      });
+
     new Setting(containerEl)
       .setName("Sync notes to Hoarder")
       .setDesc("Whether to sync notes to Hoarder")
@@ -250,6 +805,48 @@ export class HoarderSettingTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName("Sync tags to Hoarder")
+      .setDesc(
+        "Whether to sync tags added or removed in a note's frontmatter to Hoarder",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncTagsToHoarder)
+          .onChange(async (value) => {
+            this.plugin.settings.syncTagsToHoarder = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Sync properties to Hoarder")
+      .setDesc(
+        "Whether to sync changes to the title, favourited and archived properties to Hoarder",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.syncPropertiesToHoarder)
+          .onChange(async (value) => {
+            this.plugin.settings.syncPropertiesToHoarder = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Replace links with bookmark notes")
+      .setDesc(
+        "When bookmarking a link from a note, replace the link with a link to the new bookmark note",
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.replaceLinksWithNotes)
+          .onChange(async (value) => {
+            this.plugin.settings.replaceLinksWithNotes = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(containerEl)
       .setName("Import content")
       .setDesc("Import bookmark's HTML content into the content section")
@@ -263,25 +860,82 @@ export class HoarderSettingTab extends PluginSettingTab {
       );
 
     new Setting(containerEl)
-      .setName("Excluded tags")
+      .setName("Download content images")
       .setDesc(
-        "Bookmarks with these tags will not be synced (comma-separated), unless favorited",
+        "Save the images in imported content to the attachments folder instead of linking to them",
       )
-      .addText((text) =>
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.downloadContentImages)
+          .onChange(async (value) => {
+            this.plugin.settings.downloadContentImages = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    const templateSetting = new Setting(containerEl)
+      .setName("Note template")
+      .setDesc(
+        "Template file used to format bookmark notes. Leave empty for the built-in layout",
+      )
+      .addText((text) => {
         text
-          .setPlaceholder("private, secret, draft")
-          .setValue(this.plugin.settings.excludedTags.join(", "))
+          .setPlaceholder("Example: templates/hoarder.md")
+          .setValue(this.plugin.settings.templateFile)
           .onChange(async (value) => {
-            // Split by comma, trim whitespace, and filter out empty strings
-            this.plugin.settings.excludedTags = value
-              .split(",")
-              .map((tag) => tag.trim())
-              .filter((tag) => tag.length > 0);
+            this.plugin.settings.templateFile = value;
             await this.plugin.saveSettings();
+            await this.validateTemplateFile(templateStatusEl);
+          });
+
+        text.inputEl.addClass("hoarder-medium-input");
+        new FileSuggest(this.app, text.inputEl);
+        return text;
+      });
+    const templateStatusEl = templateSetting.descEl.createDiv({
+      cls: "hoarder-validation-status",
+    });
+    this.validateTemplateFile(templateStatusEl);
+
+    new Setting(containerEl)
+      .setName("Deleted or archived bookmarks")
+      .setDesc(
+        "What to do with notes whose bookmark was deleted in Hoarder, or archived while archived bookmarks are excluded. Notes with local edits are never trashed, only marked",
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            ignore: "Leave alone",
+            mark: "Mark in frontmatter",
+            move: "Move to folder",
+            trash: "Move to trash",
           })
-          .inputEl.addClass("hoarder-wide-input"),
+          .setValue(this.plugin.settings.missingBookmarkAction)
+          .onChange(async (value: MissingBookmarkAction) => {
+            this.plugin.settings.missingBookmarkAction = value;
+            await this.plugin.saveSettings();
+          }),
       );
 
+    new Setting(containerEl)
+      .setName("Deleted or archived folder")
+      .setDesc(
+        "Folder where notes of deleted or archived bookmarks are moved to",
+      )
+      .addText((text) => {
+        text
+          .setPlaceholder("Example: folder1/archive")
+          .setValue(this.plugin.settings.missingBookmarksFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.missingBookmarksFolder = value;
+            await this.plugin.saveSettings();
+          });
+
+        text.inputEl.addClass("hoarder-medium-input");
+        new FolderSuggest(this.app, text.inputEl);
+        return text;
+      });
+
     // Add Sync Now button
     new Setting(containerEl)
       .setName("Manual sync")
@@ -297,15 +951,241 @@ export class HoarderSettingTab extends PluginSettingTab {
 
         // Subscribe to sync state changes
         this.plugin.events.on("sync-state-change", this.updateSyncButton);
+        this.plugin.events.on("sync-progress", this.updateSyncProgress);
 
         return button;
       });
+  }
+
+  private displayProfile(containerEl: HTMLElement, profile: SyncProfile) {
+    new Setting(containerEl)
+      .setName("Profile name")
+      .setDesc(
+        profile.profileId
+          ? `Shown in sync messages. Its notes are marked with the profile id "${profile.profileId}", which doesn't change`
+          : "Shown in sync messages once there is more than one profile",
+      )
+      .addText((text) =>
+        text
+          .setValue(profile.profileName)
+          .onChange(async (value) => {
+            profile.profileName = value.trim() || profile.profileId || "Default";
+            await this.plugin.saveSettings();
+          })
+          .inputEl.addClass("hoarder-medium-input"),
+      );
+
+    new Setting(containerEl)
+      .setName("Api key")
+      .setDesc("Your Hoarder API key")
+      .addText((text) =>
+        text
+          .setPlaceholder("Enter your API key")
+          .setValue(profile.apiKey)
+          .onChange(async (value) => {
+            profile.apiKey = value;
+            await this.plugin.saveSettings();
+          })
+          .inputEl.addClass("hoarder-wide-input"),
+      );
+
+    const baseUrlSetting = new Setting(containerEl)
+      .setName("API Base URL")
+      .setDesc(
+        "Base URL for Hoarder API (default: https://api.hoarder.app)",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Enter API base URL")
+          .setValue(profile.apiBaseUrl)
+          .onChange(async (value) => {
+            profile.apiBaseUrl = value;
+            await this.plugin.saveSettings();
+            showServerProblems();
+          })
+          .inputEl.addClass("hoarder-wide-input"),
+      );
+    const serverStatusEl = baseUrlSetting.descEl.createDiv({
+      cls: "hoarder-validation-status",
+    });
+    const showServerProblems = () =>
+      this.showValidation(
+        serverStatusEl,
+        getServerSettingProblems(
+          profile.apiBaseUrl,
+          profile.apiPath,
+        ),
+      );
+    showServerProblems();
+
+    new Setting(containerEl)
+      .setName("API Path")
+      .setDesc(
+        "API endpoint path (default: /api/v1)",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Enter API path")
+          .setValue(profile.apiPath)
+          .onChange(async (value) => {
+            profile.apiPath = value;
+            await this.plugin.saveSettings();
+            showServerProblems();
+          })
+          .inputEl.addClass("hoarder-medium-input"),
+      );
+
+    const testSetting = new Setting(containerEl)
+      .setName("Test connection")
+      .setDesc(
+        "Check the server settings and API key, and count your bookmarks, tags and lists",
+      )
+      .addButton((button) =>
+        button.setButtonText("Test connection").onClick(async () => {
+          button.setDisabled(true);
+          button.setButtonText("Testing...");
+          try {
+            const checks = await testConnection(
+              { ...this.plugin.getClientConfig(profile), maxRetries: 0 },
+              this.plugin.transport,
+              this.plugin.settings.networkTransport === "fetch",
+            );
+            this.showConnectionChecks(checksEl, checks);
+          } finally {
+            button.setDisabled(false);
+            button.setButtonText("Test connection");
+          }
+        }),
+      );
+    const checksEl = testSetting.descEl.createDiv({
+      cls: "hoarder-connection-checks",
+    });
+
+    new Setting(containerEl)
+      .setName("Sync folder")
+      .setDesc("Folder where bookmarks will be saved")
+      .addText((text) => {
+        text
+          .setPlaceholder("Example: folder1/folder2")
+          .setValue(profile.syncFolder)
+          .onChange(async (value) => {
+            profile.syncFolder = value;
+            await this.plugin.saveSettings();
+          });
+
+        text.inputEl.addClass("hoarder-medium-input");
+        new FolderSuggest(this.app, text.inputEl);
+        return text;
+      });
+
+    new Setting(containerEl)
+      .setName("Sync interval")
+      .setDesc("How often to sync (in minutes)")
+      .addText((text) =>
+        text
+          .setPlaceholder("60")
+          .setValue(String(profile.syncIntervalMinutes))
+          .onChange(async (value) => {
+            const numValue = parseInt(value);
+            if (!isNaN(numValue) && numValue > 0) {
+              profile.syncIntervalMinutes = numValue;
+              await this.plugin.saveSettings();
+              this.plugin.startPeriodicSync();
+            }
+          })
+          .inputEl.addClass("hoarder-small-input"),
+      );
+
+    new Setting(containerEl)
+      .setName("Exclude archived")
+      .setDesc("Exclude archived bookmarks from sync")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(profile.excludeArchived)
+          .onChange(async (value) => {
+            profile.excludeArchived = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Only favorites")
+      .setDesc("Only sync favorited bookmarks")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(profile.onlyFavorites)
+          .onChange(async (value) => {
+            profile.onlyFavorites = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    const syncedListsSetting = new Setting(containerEl)
+      .setName("Synced lists")
+      .setDesc(
+        "Only sync bookmarks in these Hoarder lists. Leave empty to sync all bookmarks",
+      )
+      .addText((text) => {
+        text.setPlaceholder("Search lists");
+        text.inputEl.addClass("hoarder-medium-input");
+        new ListSuggest(
+          this.app,
+          text.inputEl,
+          this.plugin,
+          profile,
+          async (list) => {
+            profile.syncedLists.push({
+              id: list.id,
+              name: list.name,
+            });
+            await this.plugin.saveSettings();
+            this.display();
+          },
+        );
+        return text;
+      });
+    const syncedListsEl = syncedListsSetting.descEl.createDiv({
+      cls: "hoarder-synced-lists",
+    });
+    profile.syncedLists.forEach((list, index) => {
+      const listEl = syncedListsEl.createSpan({
+        cls: "hoarder-synced-list",
+        text: list.name,
+      });
+      listEl
+        .createSpan({ cls: "hoarder-synced-list-remove", text: "×" })
+        .addEventListener("click", async () => {
+          profile.syncedLists.splice(index, 1);
+          await this.plugin.saveSettings();
+          this.display();
+        });
+    });
+
+    new Setting(containerEl)
+      .setName("Excluded tags")
+      .setDesc(
+        "Bookmarks with these tags will not be synced (comma-separated), unless favorited",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("private, secret, draft")
+          .setValue(profile.excludedTags.join(", "))
+          .onChange(async (value) => {
+            // Split by comma, trim whitespace, and filter out empty strings
+            profile.excludedTags = value
+              .split(",")
+              .map((tag) => tag.trim())
+              .filter((tag) => tag.length > 0);
+            await this.plugin.saveSettings();
+          })
+          .inputEl.addClass("hoarder-wide-input"),
+      );
 
     // Add Last Sync Time
-    if (this.plugin.settings.lastSyncTimestamp > 0) {
+    if (profile.lastSyncTimestamp > 0) {
       containerEl.createEl("div", {
         text: `Last synced: ${new Date(
-          this.plugin.settings.lastSyncTimestamp,
+          profile.lastSyncTimestamp,
         ).toLocaleString()}`,
         cls: "setting-item-description",
       });
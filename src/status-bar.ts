@@ -0,0 +1,49 @@
+import { Notice, moment, setTooltip } from "obsidian";
+import type HoarderPlugin from "./main";
+
+// Status bar item showing the progress of a sync, or how the last one went
+export class SyncStatusBar {
+  constructor(
+    private plugin: HoarderPlugin,
+    private el: HTMLElement,
+  ) {
+    el.addClass("hoarder-status-bar");
+    el.addEventListener("click", async () => {
+      if (this.plugin.isSyncing) return;
+      const result = await this.plugin.syncBookmarks();
+      new Notice(result.message);
+    });
+    this.update();
+  }
+
+  update() {
+    const { isSyncing, syncProgress, lastSyncError } = this.plugin;
+    const lastSyncTimestamp = this.plugin.getLastSyncTimestamp();
+    const lastSync = lastSyncTimestamp
+      ? `Last synced ${moment(lastSyncTimestamp).format("LLL")}`
+      : "Never synced";
+
+    if (isSyncing) {
+      this.el.setText(
+        syncProgress
+          ? `Hoarder: syncing page ${syncProgress.page}, ${syncProgress.processed} of ${syncProgress.fetched}`
+          : "Hoarder: syncing...",
+      );
+      setTooltip(this.el, `${lastSync}\nRun "Cancel Sync" to stop`, {
+        placement: "top",
+      });
+    } else if (lastSyncError) {
+      this.el.setText("Hoarder: sync failed");
+      setTooltip(this.el, `${lastSyncError}\n${lastSync}\nClick to sync`, {
+        placement: "top",
+      });
+    } else {
+      this.el.setText(
+        lastSyncTimestamp
+          ? `Hoarder: synced ${moment(lastSyncTimestamp).fromNow()}`
+          : "Hoarder: not synced",
+      );
+      setTooltip(this.el, `${lastSync}\nClick to sync`, { placement: "top" });
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { ItemView, WorkspaceLeaf, moment } from "obsidian";
+import type HoarderPlugin from "./main";
+import { SyncFailure, SyncLogEntry } from "./sync-log";
+
+export const SYNC_LOG_VIEW_TYPE = "hoarder-sync-log";
+
+// Lists recent syncs and the bookmarks that failed, with a retry button
+export class SyncLogView extends ItemView {
+  constructor(
+    leaf: WorkspaceLeaf,
+    private plugin: HoarderPlugin,
+  ) {
+    super(leaf);
+  }
+
+  getViewType() {
+    return SYNC_LOG_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Hoarder sync log";
+  }
+
+  getIcon() {
+    return "scroll-text";
+  }
+
+  async onOpen() {
+    this.contentEl.addClass("hoarder-sync-log");
+    this.plugin.events.on("sync-log-change", this.render);
+    this.plugin.events.on("sync-state-change", this.render);
+    this.render();
+  }
+
+  async onClose() {
+    this.plugin.events.off("sync-log-change", this.render);
+    this.plugin.events.off("sync-state-change", this.render);
+  }
+
+  private render = () => {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const log = this.plugin.settings.syncLog;
+    if (log.length === 0) {
+      contentEl.createDiv({
+        cls: "hoarder-sync-log-empty",
+        text: "No syncs yet",
+      });
+      return;
+    }
+
+    for (const entry of log) {
+      this.renderEntry(
+        contentEl.createDiv({ cls: "hoarder-sync-log-entry" }),
+        entry,
+      );
+    }
+  };
+
+  private renderEntry(entryEl: HTMLElement, entry: SyncLogEntry) {
+    const status = entry.cancelled
+      ? "Cancelled"
+      : entry.success
+        ? "Succeeded"
+        : "Failed";
+    const headerEl = entryEl.createDiv({ cls: "hoarder-sync-log-header" });
+    headerEl.createSpan({
+      cls: `hoarder-sync-log-status hoarder-sync-log-${status.toLowerCase()}`,
+      text: status,
+    });
+    if (entry.profileName) {
+      headerEl.createSpan({
+        cls: "hoarder-sync-log-profile",
+        text: entry.profileName,
+      });
+    }
+    headerEl.createSpan({
+      text: `${moment(entry.timestamp).format("LLL")} · ${(
+        entry.durationMs / 1000
+      ).toFixed(1)}s`,
+    });
+    entryEl.createDiv({ cls: "hoarder-sync-log-message", text: entry.message });
+
+    if (entry.failures.length === 0) {
+      return;
+    }
+    const listEl = entryEl.createEl("ul", { cls: "hoarder-sync-log-failures" });
+    for (const failure of entry.failures) {
+      this.renderFailure(listEl.createEl("li"), failure);
+    }
+  }
+
+  private renderFailure(itemEl: HTMLElement, failure: SyncFailure) {
+    const titleEl = itemEl.createDiv({ cls: "hoarder-sync-log-failure" });
+    const file = this.plugin.bookmarkIndex.getFile(failure.bookmarkId);
+    if (file) {
+      const linkEl = titleEl.createEl("a", { text: failure.title });
+      linkEl.addEventListener("click", () =>
+        this.app.workspace.getLeaf(false).openFile(file),
+      );
+    } else {
+      titleEl.createSpan({ text: failure.title });
+    }
+
+    if (failure.resolved) {
+      titleEl.createSpan({
+        cls: "hoarder-sync-log-resolved",
+        text: "Resolved",
+      });
+    } else {
+      const retryEl = titleEl.createEl("button", { text: "Retry" });
+      retryEl.disabled = this.plugin.isSyncing;
+      retryEl.addEventListener("click", async () => {
+        retryEl.disabled = true;
+        retryEl.setText("Retrying...");
+        await this.plugin.retryFailedBookmark(failure.bookmarkId);
+      });
+    }
+
+    for (const error of failure.errors) {
+      itemEl.createDiv({ cls: "hoarder-sync-log-error", text: error });
+    }
+  }
+}
@@ -0,0 +1,59 @@
+// Number of syncs kept in the sync log
+export const MAX_SYNC_LOG_ENTRIES = 20;
+
+// Counts of what a sync did
+export interface SyncStats {
+  totalBookmarks: number;
+  skippedFiles: number;
+  unchangedBookmarks: number;
+  updatedInHoarder: number;
+  updatedTagsInHoarder: number;
+  updatedPropertiesInHoarder: number;
+  noteConflicts: number;
+  excludedByTags: number;
+  missingBookmarks: number;
+  failedBookmarks: number;
+}
+
+export interface SyncFailure {
+  bookmarkId: string;
+  title: string;
+  errors: string[];
+  // Set once a retry succeeded
+  resolved?: boolean;
+}
+
+export interface SyncLogEntry {
+  timestamp: number;
+  durationMs: number;
+  // Set when there is more than one profile
+  profileName?: string;
+  success: boolean;
+  cancelled: boolean;
+  message: string;
+  stats: SyncStats;
+  failures: SyncFailure[];
+}
+
+export function createSyncStats(): SyncStats {
+  return {
+    totalBookmarks: 0,
+    skippedFiles: 0,
+    unchangedBookmarks: 0,
+    updatedInHoarder: 0,
+    updatedTagsInHoarder: 0,
+    updatedPropertiesInHoarder: 0,
+    noteConflicts: 0,
+    excludedByTags: 0,
+    missingBookmarks: 0,
+    failedBookmarks: 0,
+  };
+}
+
+// Add an entry to the front of the log, dropping the oldest ones
+export function addSyncLogEntry(
+  log: SyncLogEntry[],
+  entry: SyncLogEntry,
+): SyncLogEntry[] {
+  return [entry, ...log].slice(0, MAX_SYNC_LOG_ENTRIES);
+}
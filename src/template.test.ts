@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { parseYaml } from "obsidian";
+import {
+  DEFAULT_NOTE_TEMPLATE,
+  TemplateError,
+  escapeTag,
+  escapeYaml,
+  parseTemplate,
+  renderTemplate,
+  validateTemplate,
+} from "./template";
+
+function render(source: string, context: Record<string, unknown>) {
+  return renderTemplate(parseTemplate(source), context);
+}
+
+describe("renderTemplate", () => {
+  it("inserts values and applies filters", () => {
+    expect(
+      render("{{title}} - {{note|yaml}}", { title: "Title", note: "It's" }),
+    ).toBe("Title - 'It''s'");
+  });
+
+  it("renders if, else and unless blocks", () => {
+    const source =
+      "{{#if url}}link{{else}}text{{/if}}{{#unless url}}!{{/unless}}";
+    expect(render(source, { url: "https://example.com" })).toBe("link");
+    expect(render(source, { url: "" })).toBe("text!");
+  });
+
+  it("loops over lists with loop variables", () => {
+    expect(
+      render(
+        "{{#each tags}}{{@index}}:{{this}}{{#unless @last}},{{/unless}}{{/each}}",
+        { tags: ["a", "b"] },
+      ),
+    ).toBe("0:a,1:b");
+  });
+
+  it("drops the lines of block tags that stand on their own", () => {
+    expect(render("a\n{{#if on}}\nb\n{{/if}}\nc", { on: true })).toBe(
+      "a\nb\nc",
+    );
+  });
+});
+
+describe("parseTemplate", () => {
+  it.each([
+    ["{{#if title}}\nno end", 'Line 1: Unclosed "{{#if}}" block'],
+    ["{{#each tags}}", 'Line 1: Unclosed "{{#each}}" block'],
+    ["{{#unless url}}", 'Line 1: Unclosed "{{#unless}}" block'],
+    ["text\n{{else}}", 'Line 2: Unexpected "{{else}}"'],
+    ["{{#each tags}}{{else}}{{/each}}", 'Line 1: Unexpected "{{else}}"'],
+    ["{{#if a}}{{else}}{{else}}{{/if}}", 'Line 1: Unexpected "{{else}}"'],
+    ["{{#if a}}{{/each}}", 'Line 1: Unexpected "{{/each}}"'],
+    ["{{/if}}", 'Line 1: Unexpected "{{/if}}"'],
+    ["{{#with a}}{{/with}}", 'Line 1: Unknown block helper "with"'],
+    ["{{#if}}{{/if}}", 'Line 1: Expected "{{#if name}}"'],
+    ["{{title|upper}}", 'Line 1: Unknown filter "upper"'],
+    ["{{ }}", "Line 1: Empty placeholder"],
+  ])("rejects %j", (source, message) => {
+    expect(() => parseTemplate(source)).toThrow(TemplateError);
+    expect(() => parseTemplate(source)).toThrow(message);
+  });
+});
+
+describe("validateTemplate", () => {
+  it("accepts the default template", () => {
+    expect(validateTemplate(DEFAULT_NOTE_TEMPLATE)).toEqual([]);
+  });
+
+  it("reports unknown variables and missing sync properties", () => {
+    expect(validateTemplate("{{titel}}\n{{this}}")).toEqual([
+      'Line 1: Unknown variable "titel"',
+      'Line 2: Unknown variable "this"',
+      "Missing the bookmark_id frontmatter property",
+      'Missing the Notes section: a "## Notes" heading followed by an empty line and {{note}}',
+      "Missing the original_note frontmatter property",
+    ]);
+  });
+
+  it("reports mismatched region markers", () => {
+    const source = DEFAULT_NOTE_TEMPLATE.replace(
+      "%% hoarder-end: content %%",
+      "",
+    );
+    expect(validateTemplate(source)).toContain(
+      'Region "link" is nested in "content"',
+    );
+  });
+});
+
+describe("escapeYaml", () => {
+  it.each([
+    "Plain title",
+    'He said "hi"',
+    "It's here",
+    `He said "it's"`,
+    `'Quoted' and "double quoted"`,
+    "Back\\slash's",
+    " padded ",
+    "Title: with a colon",
+    "First line\nSecond line",
+  ])("keeps %j intact", (title) => {
+    expect(parseYaml(`title: ${escapeYaml(title)}`)).toEqual({
+      title: title.includes("\n") || title.includes(":") ? `${title}\n` : title,
+    });
+  });
+
+  it("leaves empty values empty", () => {
+    expect(escapeYaml(null)).toBe("");
+    expect(escapeYaml("")).toBe("");
+  });
+});
+
+describe("escapeTag", () => {
+  it.each(["tag", "two words", 'say "hi"', `it's "quoted"`, "back\\slash"])(
+    "keeps %j intact",
+    (tag) => {
+      expect(parseYaml(`tags:\n  - ${escapeTag(tag)}`)).toEqual({
+        tags: [tag],
+      });
+    },
+  );
+});
@@ -0,0 +1,421 @@
+import { validateManagedRegions } from "./managed-regions";
+
+/**
+ * A small Handlebars-like template engine for bookmark notes.
+ *
+ * Supported syntax:
+ * - `{{name}}` and `{{name|filter}}` to insert values (filters: yaml, tag)
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`
+ * - `{{#each name}}...{{/each}}` with `{{this}}`, `{{@index}}`, `{{@first}}`
+ *   and `{{@last}}` inside the loop
+ *
+ * Block tags on a line of their own don't leave an empty line behind.
+ */
+
+export class TemplateError extends Error {
+  constructor(
+    message: string,
+    public line: number,
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = "TemplateError";
+  }
+}
+
+export type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string; filters: string[]; line: number }
+  | {
+      type: "if";
+      path: string;
+      negate: boolean;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+      line: number;
+    }
+  | { type: "each"; path: string; body: TemplateNode[]; line: number };
+
+export type TemplateContext = Record<string, unknown>;
+
+// Variables available to note templates, see formatBookmarkAsMarkdown
+export const TEMPLATE_VARIABLES = [
+  "id",
+  "title",
+  "url",
+  "date",
+  "type",
+  "isLink",
+  "isText",
+  "isAsset",
+  "assetType",
+  "tags",
+  "aiTags",
+  "humanTags",
+  "lists",
+  "note",
+  "summary",
+  "description",
+  "text",
+  "content",
+  "image",
+  "imagePath",
+  "fullPageArchive",
+  "screenshot",
+  "pdf",
+  "archive",
+  "video",
+  "favourited",
+  "archived",
+];
+
+export const DEFAULT_NOTE_TEMPLATE = `---
+bookmark_id: "{{id}}"
+url: {{url|yaml}}
+title: {{title|yaml}}
+original_title: {{title|yaml}}
+favourited: {{favourited}}
+original_favourited: {{favourited}}
+archived: {{archived}}
+original_archived: {{archived}}
+date: {{date}}
+full_page_archive: {{fullPageArchive|yaml}}
+tags:
+{{#each tags}}
+  - {{this|tag}}
+{{/each}}
+{{#if lists}}
+lists:
+{{#each lists}}
+  - {{this|tag}}
+{{/each}}
+{{/if}}
+original_tags:
+{{#each tags}}
+  - {{this|tag}}
+{{/each}}
+note: {{note|yaml}}
+original_note: {{note|yaml}}
+summary: {{summary|yaml}}
+---
+
+%% hoarder-start: content %%
+# {{title}}
+{{#if image}}
+
+{{image}}
+{{/if}}
+{{#if screenshot}}
+
+{{screenshot}}
+{{/if}}
+{{#if pdf}}
+
+{{pdf}}
+{{/if}}
+{{#if video}}
+
+{{video}}
+{{/if}}
+{{#if summary}}
+
+## Summary
+
+{{summary}}
+{{/if}}
+{{#if description}}
+
+## Description
+
+{{description}}
+{{/if}}
+{{#if content}}
+
+## Content
+
+{{content}}
+{{/if}}
+{{#if archive}}
+
+## Archive
+
+{{archive}}
+{{/if}}
+%% hoarder-end: content %%
+
+## Notes
+
+{{note}}
+
+%% hoarder-start: link %%
+{{#unless isAsset}}
+{{#if url}}
+[Visit Link]({{url}})
+{{/if}}
+{{/unless}}
+%% hoarder-end: link %%
+`;
+
+// Escape a value for use in YAML frontmatter
+export function escapeYaml(str: string | null | undefined): string {
+  if (!str) return "";
+  // If string contains newlines or special characters, use block scalar
+  if (str.includes("\n") || /[:#{}\[\],&*?|<>=!%@`]/.test(str)) {
+    return `|\n  ${str.replace(/\n/g, "\n  ")}`;
+  }
+  // For simple strings, just wrap in quotes if needed. Single-quoted
+  // strings only need their single quotes doubled.
+  if (/["']/.test(str) || /^[ \t]|[ \t]$/.test(str)) {
+    return quoteYaml(str);
+  }
+  return str;
+}
+
+// Escape a tag for use in a YAML list
+export function escapeTag(tag: string): string {
+  // Always quote tags to handle spaces and special characters
+  if (tag.includes('"') || tag.includes("\\")) {
+    return quoteYaml(tag);
+  }
+  return `"${tag}"`;
+}
+
+function quoteYaml(str: string): string {
+  return `'${str.replace(/'/g, "''")}'`;
+}
+
+const FILTERS: Record<string, (value: string) => string> = {
+  yaml: escapeYaml,
+  tag: escapeTag,
+};
+
+const TAG_PATTERN = /\{\{\s*([#/]?)([^{}]*?)\s*\}\}/g;
+
+export function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: {
+    node: TemplateNode & { type: "if" | "each" };
+    target: TemplateNode[];
+  }[] = [];
+  let target = root;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const lineAt = (index: number) => source.slice(0, index).split("\n").length;
+
+  TAG_PATTERN.lastIndex = 0;
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    const [tag, sigil, body] = match;
+    const line = lineAt(match.index);
+    const isBlockTag = sigil !== "" || body === "else";
+    let start = match.index;
+    let end = match.index + tag.length;
+
+    // Drop the whole line for block tags that stand on their own
+    if (isBlockTag) {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      let lineEnd = source.indexOf("\n", end);
+      if (lineEnd === -1) lineEnd = source.length;
+      if (
+        lineStart >= lastIndex &&
+        /^[ \t]*$/.test(source.slice(lineStart, start)) &&
+        /^[ \t]*$/.test(source.slice(end, lineEnd))
+      ) {
+        start = lineStart;
+        end = Math.min(lineEnd + 1, source.length);
+      }
+    }
+
+    if (start > lastIndex) {
+      target.push({ type: "text", value: source.slice(lastIndex, start) });
+    }
+    lastIndex = end;
+    TAG_PATTERN.lastIndex = end;
+
+    if (sigil === "#") {
+      const [helper, path, ...rest] = body.split(/\s+/);
+      if (!path || rest.length > 0) {
+        throw new TemplateError(`Expected "{{#${helper} name}}"`, line);
+      }
+      let node: TemplateNode & { type: "if" | "each" };
+      if (helper === "if" || helper === "unless") {
+        node = {
+          type: "if",
+          path,
+          negate: helper === "unless",
+          then: [],
+          otherwise: [],
+          line,
+        };
+      } else if (helper === "each") {
+        node = { type: "each", path, body: [], line };
+      } else {
+        throw new TemplateError(`Unknown block helper "${helper}"`, line);
+      }
+      target.push(node);
+      stack.push({ node, target });
+      target = node.type === "if" ? node.then : node.body;
+    } else if (sigil === "/") {
+      const open = stack.pop();
+      const expected = open
+        ? open.node.type === "if" && open.node.negate
+          ? "unless"
+          : open.node.type
+        : null;
+      if (!open || body !== expected) {
+        throw new TemplateError(`Unexpected "{{/${body}}}"`, line);
+      }
+      target = open.target;
+    } else if (body === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.node.type !== "if" || target !== open.node.then) {
+        throw new TemplateError(`Unexpected "{{else}}"`, line);
+      }
+      target = open.node.otherwise;
+    } else {
+      const [path, ...filters] = body.split("|").map((part) => part.trim());
+      if (!path) {
+        throw new TemplateError("Empty placeholder", line);
+      }
+      for (const filter of filters) {
+        if (!FILTERS[filter]) {
+          throw new TemplateError(`Unknown filter "${filter}"`, line);
+        }
+      }
+      target.push({ type: "value", path, filters, line });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    const helper = open.type === "if" && open.negate ? "unless" : open.type;
+    throw new TemplateError(`Unclosed "{{#${helper}}}" block`, open.line);
+  }
+
+  if (lastIndex < source.length) {
+    target.push({ type: "text", value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function lookup(scopes: TemplateContext[], path: string): unknown {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    const [head, ...rest] = path.split(".");
+    if (head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === "object"
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        scope[head],
+      );
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: TemplateContext[]): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "value": {
+        const value = lookup(scopes, node.path);
+        let text = value === null || value === undefined ? "" : String(value);
+        for (const filter of node.filters) {
+          text = FILTERS[filter](text);
+        }
+        output += text;
+        break;
+      }
+      case "if": {
+        const truthy = isTruthy(lookup(scopes, node.path)) !== node.negate;
+        output += renderNodes(truthy ? node.then : node.otherwise, scopes);
+        break;
+      }
+      case "each": {
+        const value = lookup(scopes, node.path);
+        const items = Array.isArray(value) ? value : [];
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, [
+            ...scopes,
+            {
+              this: item,
+              "@index": index,
+              "@first": index === 0,
+              "@last": index === items.length - 1,
+            },
+          ]);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(
+  template: TemplateNode[],
+  context: TemplateContext,
+): string {
+  return renderNodes(template, [context]);
+}
+
+/**
+ * Check a note template for syntax errors, unknown variables and the parts
+ * bidirectional sync depends on. Returns a list of problems.
+ */
+export function validateTemplate(source: string): string[] {
+  let template: TemplateNode[];
+  try {
+    template = parseTemplate(source);
+  } catch (error) {
+    return [error.message];
+  }
+
+  const problems: string[] = [];
+  const checkNodes = (nodes: TemplateNode[], loopDepth: number) => {
+    for (const node of nodes) {
+      if (node.type === "text") continue;
+
+      const root = node.path.split(".")[0];
+      const isLoopVariable = root === "this" || root.startsWith("@");
+      if (
+        isLoopVariable ? loopDepth === 0 : !TEMPLATE_VARIABLES.includes(root)
+      ) {
+        problems.push(`Line ${node.line}: Unknown variable "${node.path}"`);
+      }
+
+      if (node.type === "if") {
+        checkNodes(node.then, loopDepth);
+        checkNodes(node.otherwise, loopDepth);
+      } else if (node.type === "each") {
+        checkNodes(node.body, loopDepth + 1);
+      }
+    }
+  };
+  checkNodes(template, 0);
+
+  if (!/^bookmark_id:/m.test(source)) {
+    problems.push("Missing the bookmark_id frontmatter property");
+  }
+  if (!/^## Notes\n\n\{\{\s*note\s*\}\}/m.test(source)) {
+    problems.push(
+      'Missing the Notes section: a "## Notes" heading followed by an empty line and {{note}}',
+    );
+  }
+  if (!/^original_note:/m.test(source)) {
+    problems.push("Missing the original_note frontmatter property");
+  }
+  problems.push(...validateManagedRegions(source));
+
+  return problems;
+}
@@ -0,0 +1,82 @@
+import { requestUrl } from "obsidian";
+import {
+  HoarderCorsError,
+  HoarderTransport,
+  fetchTransport,
+} from "./hoarder-api";
+
+// "obsidian" sends requests through Obsidian, which isn't subject to CORS.
+// "fetch" uses the browser's fetch, which needs the server to allow Obsidian.
+export type NetworkTransport = "obsidian" | "fetch";
+
+export const NETWORK_TRANSPORTS: Record<NetworkTransport, string> = {
+  obsidian: "Obsidian (no CORS setup needed)",
+  fetch: "Browser fetch",
+};
+
+export const requestUrlTransport: HoarderTransport = async (request) => {
+  // requestUrl takes the content type separately from the other headers
+  const headers: Record<string, string> = {};
+  let contentType: string | undefined;
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (name.toLowerCase() === "content-type") {
+      contentType = value;
+    } else {
+      headers[name] = value;
+    }
+  }
+
+  const response = await requestUrl({
+    url: request.url,
+    method: request.method,
+    headers,
+    contentType,
+    body: request.body,
+    throw: false,
+  });
+
+  const responseHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    responseHeaders[name.toLowerCase()] = value;
+  }
+
+  return {
+    status: response.status,
+    headers: responseHeaders,
+    text: async () => response.text,
+    arrayBuffer: async () => response.arrayBuffer,
+  };
+};
+
+/**
+ * The browser reports a request blocked by CORS like any other network
+ * error. When fetch fails, the server is asked again through Obsidian: if it
+ * answers there, it's reachable and CORS is what blocked the request.
+ */
+export const corsCheckingFetchTransport: HoarderTransport = async (request) => {
+  try {
+    return await fetchTransport(request);
+  } catch (error) {
+    if (request.signal?.aborted) {
+      throw error;
+    }
+
+    let reachable = false;
+    try {
+      await requestUrl({ url: request.url, method: "HEAD", throw: false });
+      reachable = true;
+    } catch {
+      // Unreachable either way, keep the original error
+    }
+    if (reachable) {
+      throw new HoarderCorsError(
+        `${new URL(request.url).origin} blocked the request from Obsidian (CORS). Allow app://obsidian.md in the server's CORS policy, or set "Network requests" to Obsidian in the plugin settings`,
+      );
+    }
+    throw error;
+  }
+};
+
+export function getTransport(type: NetworkTransport): HoarderTransport {
+  return type === "fetch" ? corsCheckingFetchTransport : requestUrlTransport;
+}
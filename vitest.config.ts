@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Obsidian only exists inside the app, so tests run against a stand-in
+    alias: {
+      obsidian: new URL("./src/__mocks__/obsidian.ts", import.meta.url)
+        .pathname,
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});